@@ -1,19 +1,163 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef, ChangeEvent } from 'react';
 import { Analytics } from '@vercel/analytics/react';
-import { ProcessedImage, ImageFilters, FormatOptions, defaultFilters, defaultFormatOptions } from './types';
+import { EditorState, ProcessedImage, ImageFilters, FilterLook, FormatOptions, FormatPreset, ExportOptions, MetadataOptions, defaultFilters, defaultFormatOptions, defaultExportOptions, defaultPlacement, defaultTransform } from './types';
 import ImageUploader from './components/ImageUploader';
 import FilterEditor from './components/FilterEditor';
 import BulkProcessor from './components/BulkProcessor';
 import DownloadAllButton from './components/DownloadAllButton';
 import BackgroundColorPicker from './components/BackgroundColorPicker';
+import BackgroundStyleSelector from './components/BackgroundStyleSelector';
 import FormatPresetSelector from './components/FormatPresetSelector';
+import ExportSettings from './components/ExportSettings';
 import MobilePhotoEditor from './components/MobilePhotoEditor';
+import HistogramPanel from './components/HistogramPanel';
+import { readImageMetadata } from './utils/metadata';
+import { loadCustomPresets, saveCustomPresets } from './utils/customPresets';
+import { loadFilterLooks, saveFilterLooks } from './utils/filterLooks';
+import { createProjectFile, getMissingLutIds, loadSession, openProjectFile, saveSession } from './utils/project';
+import { loadColorLuts } from './utils/colorLuts';
+import { downloadBlob } from './utils/exporter';
+import { useHistory } from './hooks/useHistory';
+
+// Edits are written to IndexedDB once they settle
+const SESSION_SAVE_DELAY = 500;
+
+// The metadata policy and team credit are shared across sessions
+const METADATA_STORAGE_KEY = 'photosquare.metadata';
+
+const loadExportOptions = (): ExportOptions => {
+  try {
+    const saved = localStorage.getItem(METADATA_STORAGE_KEY);
+    if (saved) {
+      const metadata: Partial<MetadataOptions> = JSON.parse(saved);
+      return { ...defaultExportOptions, metadata: { ...defaultExportOptions.metadata, ...metadata } };
+    }
+  } catch (error) {
+    console.error('Error loading metadata settings:', error);
+  }
+  return defaultExportOptions;
+};
+
+// Render results and parsed metadata describe the photo rather than edit it, so they aren't undo steps
+const untrackedImageKeys: (keyof ProcessedImage)[] = ['processed', 'canvas', 'photoRect', 'metadata'];
+
+const revokeImageUrls = (image: ProcessedImage) => {
+  if (image.originalUrl && image.originalUrl.startsWith('blob:')) {
+    URL.revokeObjectURL(image.originalUrl);
+  }
+  if (image.processed && image.processed.startsWith('blob:')) {
+    URL.revokeObjectURL(image.processed);
+  }
+};
+
+// Text fields keep the browser's own undo
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button', 'color', 'file'].includes(target.type));
 
 function App() {
-  const [images, setImages] = useState<ProcessedImage[]>([]);
-  const [globalFilters, setGlobalFilters] = useState<ImageFilters>(defaultFilters);
-  const [formatOptions, setFormatOptions] = useState<FormatOptions>(defaultFormatOptions);
+  const { state: editor, history, update, patch, undo, redo, reset, canUndo, canRedo } = useHistory<EditorState>({
+    images: [],
+    globalFilters: defaultFilters,
+    formatOptions: defaultFormatOptions,
+  });
+  const { images, globalFilters, formatOptions } = editor;
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(loadExportOptions);
+  const [customPresets, setCustomPresets] = useState<FormatPreset[]>(loadCustomPresets);
+  const [filterLooks, setFilterLooks] = useState<FilterLook[]>(loadFilterLooks);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Uploads wait for the saved session so it can't overwrite them
+  const [isRestoring, setIsRestoring] = useState(true);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [histogramImageId, setHistogramImageId] = useState<string | null>(null);
+  const [showClipping, setShowClipping] = useState(false);
+  const histogramImage = images.find(img => img.id === histogramImageId) ?? images[0];
+
+  const setImages = useCallback((updater: (images: ProcessedImage[]) => ProcessedImage[]) => {
+    update(state => ({ ...state, images: updater(state.images) }));
+  }, [update]);
+
+  const setFormatOptions = useCallback((updater: (formatOptions: FormatOptions) => FormatOptions) => {
+    update(state => ({ ...state, formatOptions: updater(state.formatOptions) }));
+  }, [update]);
+
+  // Global filters flow into every image that doesn't override them, in the same undo step
+  const setGlobalFilters = useCallback((filters: ImageFilters) => {
+    update(state => ({
+      ...state,
+      globalFilters: filters,
+      images: state.images.map(img => img.overrideFilters ? img : { ...img, filters: { ...filters } }),
+    }));
+  }, [update]);
+
+  // Desktop shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z or Ctrl+Y to redo (Cmd on macOS)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextInput(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Removed images stay restorable by undo, so only free their URLs once no snapshot refers to them
+  const knownImages = useRef(new Map<string, ProcessedImage>());
+  useEffect(() => {
+    const reachable = new Set<string>();
+    [...history.past, history.present, ...history.future].forEach(state =>
+      state.images.forEach(img => {
+        reachable.add(img.id);
+        knownImages.current.set(img.id, img);
+      })
+    );
+    knownImages.current.forEach((image, id) => {
+      if (!reachable.has(id)) {
+        revokeImageUrls(image);
+        knownImages.current.delete(id);
+      }
+    });
+  }, [history]);
+
+  // Read EXIF/IPTC/XMP in the background, the photos are usable without it
+  const readMetadata = useCallback((newImages: ProcessedImage[]) => {
+    newImages.forEach(async (image) => {
+      const metadata = await readImageMetadata(image.original);
+      patch(state => ({
+        ...state,
+        images: state.images.map(img => img.id === image.id ? { ...img, metadata } : img),
+      }));
+    });
+  }, [patch]);
+
+  // Pick up where the last visit left off; LUTs first so restored photos render graded
+  useEffect(() => {
+    loadColorLuts()
+      .catch((error) => console.error('Error loading LUTs:', error))
+      .then(loadSession)
+      .then((session) => {
+        if (!session) return;
+        reset(session);
+        readMetadata(session.images);
+      })
+      .catch((error) => console.error('Error restoring session:', error))
+      .finally(() => setIsRestoring(false));
+  }, [reset, readMetadata]);
+
+  useEffect(() => {
+    if (isRestoring) return;
+    const timer = window.setTimeout(() => {
+      saveSession({ images, globalFilters, formatOptions })
+        .catch((error) => console.error('Error saving session:', error));
+    }, SESSION_SAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [isRestoring, images, globalFilters, formatOptions]);
 
   const handleImagesSelected = useCallback(async (files: File[]) => {
     setIsProcessing(true);
@@ -22,57 +166,122 @@ function App() {
       id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       original: file,
       originalUrl: URL.createObjectURL(file),
-      filters: { ...defaultFilters },
+      filters: { ...globalFilters },
+      overrideFilters: false,
+      placement: { ...defaultPlacement },
+      transform: { ...defaultTransform },
     }));
 
     setImages(prev => [...prev, ...newImages]);
     setIsProcessing(false);
-  }, []);
+    readMetadata(newImages);
+  }, [globalFilters, setImages, readMetadata]);
 
-  const handleUpdateImage = useCallback((id: string, updates: Partial<ProcessedImage>) => {
-    setImages(prev => prev.map(img => 
-      img.id === id ? { ...img, ...updates } : img
-    ));
-  }, []);
+  const handleSaveProject = useCallback(async () => {
+    setIsProcessing(true);
+    try {
+      const project = await createProjectFile({ images, globalFilters, formatOptions });
+      downloadBlob(project, `photosquare_project_${new Date().toISOString().split('T')[0]}.zip`);
+    } catch (error) {
+      console.error('Error saving project:', error);
+      alert('Failed to save the project. Please try again.');
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [images, globalFilters, formatOptions]);
 
-  const handleRemoveImage = useCallback((id: string) => {
-    setImages(prev => {
-      const image = prev.find(img => img.id === id);
-      if (image) {
-        // Cleanup blob URLs
-        if (image.originalUrl && image.originalUrl.startsWith('blob:')) {
-          URL.revokeObjectURL(image.originalUrl);
-        }
-        if (image.processed && image.processed.startsWith('blob:')) {
-          URL.revokeObjectURL(image.processed);
-        }
+  // Opening a project replaces the session as one undoable step
+  const handleOpenProject = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsProcessing(true);
+    try {
+      const project = await openProjectFile(file);
+      update(() => project);
+      readMetadata(project.images);
+      const missingLuts = getMissingLutIds(project).length;
+      if (missingLuts > 0) {
+        alert(`The project uses ${missingLuts === 1 ? 'a LUT that is' : `${missingLuts} LUTs that are`} not in this browser, so that grading is skipped. Import it again and pick it in the LUT layer to restore it.`);
       }
-      return prev.filter(img => img.id !== id);
-    });
-  }, []);
+    } catch (error) {
+      console.error('Error opening project:', error);
+      alert(`Failed to open the project. ${error instanceof Error ? error.message : ''}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [update, readMetadata]);
+
+  useEffect(() => {
+    saveCustomPresets(customPresets);
+  }, [customPresets]);
 
-  // Auto-apply global filters to all images when global filters change
   useEffect(() => {
-    if (images.length > 0) {
-      setImages(prev => prev.map(img => ({
-        ...img,
-        filters: { ...globalFilters }
-      })));
+    saveFilterLooks(filterLooks);
+  }, [filterLooks]);
+
+  // Presets bring their own fit mode, and custom presets may bring a background too
+  const handlePresetChange = useCallback((preset: FormatPreset) => {
+    setFormatOptions(prev => ({
+      ...prev,
+      preset,
+      aspectRatio: preset.aspectRatio,
+      fitMode: preset.fitMode ?? 'contain',
+      ...(preset.background && {
+        background: preset.background,
+        backgroundColor: preset.backgroundColor ?? prev.backgroundColor,
+      }),
+    }));
+  }, [setFormatOptions]);
+
+  // Keep the selected preset in step when it's edited or deleted
+  const handleCustomPresetsChange = useCallback((presets: FormatPreset[]) => {
+    setCustomPresets(presets);
+    if (!formatOptions.preset.custom) return;
+
+    const selected = presets.find(preset => preset.id === formatOptions.preset.id);
+    if (!selected) {
+      handlePresetChange(defaultFormatOptions.preset);
+    } else if (selected !== formatOptions.preset) {
+      setFormatOptions(prev => ({ ...prev, preset: selected, aspectRatio: selected.aspectRatio }));
     }
-  }, [globalFilters]);
+  }, [formatOptions.preset, handlePresetChange, setFormatOptions]);
 
-  const clearAllImages = useCallback(() => {
-    images.forEach(image => {
-      // Cleanup blob URLs
-      if (image.originalUrl && image.originalUrl.startsWith('blob:')) {
-        URL.revokeObjectURL(image.originalUrl);
-      }
-      if (image.processed && image.processed.startsWith('blob:')) {
-        URL.revokeObjectURL(image.processed);
-      }
+  useEffect(() => {
+    localStorage.setItem(METADATA_STORAGE_KEY, JSON.stringify(exportOptions.metadata));
+  }, [exportOptions.metadata]);
+
+  const handleUpdateImage = useCallback((id: string, updates: Partial<ProcessedImage>) => {
+    const apply = (state: EditorState): EditorState => ({
+      ...state,
+      images: state.images.map(img => img.id === id ? { ...img, ...updates } : img),
     });
-    setImages([]);
-  }, [images]);
+    const isEdit = (Object.keys(updates) as (keyof ProcessedImage)[]).some(key => !untrackedImageKeys.includes(key));
+    if (isEdit) {
+      update(apply);
+    } else {
+      patch(apply);
+    }
+  }, [update, patch]);
+
+  const handleRemoveImage = useCallback((id: string) => {
+    setImages(prev => prev.filter(img => img.id !== id));
+  }, [setImages]);
+
+  // Drop an image's own filters and follow the global filters again
+  const handleResetImageFilters = useCallback((id: string) => {
+    update(state => ({
+      ...state,
+      images: state.images.map(img =>
+        img.id === id ? { ...img, overrideFilters: false, filters: { ...state.globalFilters } } : img
+      ),
+    }));
+  }, [update]);
+
+  const clearAllImages = useCallback(() => {
+    setImages(() => []);
+  }, [setImages]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -92,14 +301,61 @@ function App() {
               </div>
             </div>
             
-            {images.length > 0 && (
+            <div className="flex items-center space-x-2">
               <button
-                onClick={clearAllImages}
-                className="text-red-600 hover:text-red-700 text-sm font-medium px-3 py-1 border border-red-300 rounded-lg hover:bg-red-50 transition-colors"
+                onClick={() => projectInputRef.current?.click()}
+                disabled={isProcessing || isRestoring}
+                className="text-gray-600 hover:text-gray-800 text-sm font-medium px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="Open a saved project"
               >
-                Clear All
+                Open
               </button>
-            )}
+              <input
+                ref={projectInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                onChange={handleOpenProject}
+                className="hidden"
+              />
+              {images.length > 0 && (
+                <button
+                  onClick={handleSaveProject}
+                  disabled={isProcessing}
+                  className="text-gray-600 hover:text-gray-800 text-sm font-medium px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  title="Save the photos and all settings to one file"
+                >
+                  Save
+                </button>
+              )}
+              {(canUndo || canRedo) && (
+                <div className="hidden lg:flex items-center space-x-2">
+                  <button
+                    onClick={undo}
+                    disabled={!canUndo}
+                    className="text-gray-600 hover:text-gray-800 text-sm font-medium px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    title="Undo (Ctrl+Z)"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    onClick={redo}
+                    disabled={!canRedo}
+                    className="text-gray-600 hover:text-gray-800 text-sm font-medium px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    Redo
+                  </button>
+                </div>
+              )}
+              {images.length > 0 && (
+                <button
+                  onClick={clearAllImages}
+                  className="text-red-600 hover:text-red-700 text-sm font-medium px-3 py-1 border border-red-300 rounded-lg hover:bg-red-50 transition-colors"
+                >
+                  Clear All
+                </button>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -113,14 +369,24 @@ function App() {
               images={images}
               formatOptions={formatOptions}
               filters={globalFilters}
-              onFormatChange={(preset) => setFormatOptions(prev => ({ 
-                ...prev, 
-                preset,
-                aspectRatio: preset.aspectRatio 
-              }))}
+              customPresets={customPresets}
+              filterLooks={filterLooks}
+              onFilterLooksChange={setFilterLooks}
+              onFormatChange={handlePresetChange}
+              onCustomPresetsChange={handleCustomPresetsChange}
+              onFitModeChange={(fitMode) => setFormatOptions(prev => ({ ...prev, fitMode }))}
+              onBackgroundChange={(background) => setFormatOptions(prev => ({ ...prev, background }))}
+              onBackgroundColorChange={(color) => setFormatOptions(prev => ({ ...prev, backgroundColor: color }))}
               onFilterChange={setGlobalFilters}
+              exportOptions={exportOptions}
+              onExportOptionsChange={setExportOptions}
               onUpdateImage={handleUpdateImage}
+              onResetImageFilters={handleResetImageFilters}
               onRemoveImage={handleRemoveImage}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={undo}
+              onRedo={redo}
             />
           ) : (
             <div className="space-y-6">
@@ -129,7 +395,7 @@ function App() {
                 <h2 className="text-lg font-semibold text-gray-900 mb-4">Upload Images</h2>
                 <ImageUploader 
                   onImagesSelected={handleImagesSelected} 
-                  disabled={isProcessing}
+                  disabled={isProcessing || isRestoring}
                 />
               </div>
 
@@ -158,37 +424,89 @@ function App() {
                   <h2 className="text-lg font-semibold text-gray-900 mb-4">Upload Images</h2>
                   <ImageUploader 
                     onImagesSelected={handleImagesSelected} 
-                    disabled={isProcessing}
+                    disabled={isProcessing || isRestoring}
                   />
                 </div>
 
                 {/* Format Presets */}
                 <FormatPresetSelector
                   selectedPreset={formatOptions.preset}
-                  onChange={(preset) => setFormatOptions(prev => ({ 
-                    ...prev, 
-                    preset,
-                    aspectRatio: preset.aspectRatio 
-                  }))}
+                  fitMode={formatOptions.fitMode}
+                  customPresets={customPresets}
+                  backgroundColor={formatOptions.backgroundColor}
+                  background={formatOptions.background}
+                  onChange={handlePresetChange}
+                  onFitModeChange={(fitMode) => setFormatOptions(prev => ({ ...prev, fitMode }))}
+                  onCustomPresetsChange={handleCustomPresetsChange}
                 />
 
                 {/* Background Color Picker - Only show for non-original formats */}
                 {formatOptions.preset.id !== 'original' && (
-                  <BackgroundColorPicker
-                    backgroundColor={formatOptions.backgroundColor}
-                    onChange={(color) => setFormatOptions(prev => ({ ...prev, backgroundColor: color }))}
-                  />
+                  <>
+                    <BackgroundStyleSelector
+                      background={formatOptions.background}
+                      onChange={(background) => setFormatOptions(prev => ({ ...prev, background }))}
+                    />
+                    {/* The blurred fill covers the whole canvas, so there is nothing to pick */}
+                    {formatOptions.background.mode !== 'blur' && (
+                      <BackgroundColorPicker
+                        backgroundColor={formatOptions.backgroundColor}
+                        background={formatOptions.background}
+                        onChange={(color) => setFormatOptions(prev => ({ ...prev, backgroundColor: color }))}
+                        onBackgroundChange={(background) => setFormatOptions(prev => ({ ...prev, background }))}
+                      />
+                    )}
+                  </>
+                )}
+
+                {/* Histogram */}
+                {histogramImage && (
+                  <div className="bg-white rounded-lg shadow-sm border p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h2 className="text-lg font-semibold text-gray-900">Histogram</h2>
+                      {images.length > 1 && (
+                        <select
+                          value={histogramImage.id}
+                          onChange={(e) => setHistogramImageId(e.target.value)}
+                          className="max-w-[9rem] px-2 py-1 border border-gray-300 rounded text-xs truncate"
+                        >
+                          {images.map(img => (
+                            <option key={img.id} value={img.id}>{img.original.name}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                    <HistogramPanel
+                      canvas={histogramImage.canvas}
+                      photoRect={histogramImage.photoRect}
+                      showClipping={showClipping}
+                      onShowClippingChange={setShowClipping}
+                    />
+                  </div>
                 )}
 
                 {/* Global Filters */}
                 <FilterEditor
                   filters={globalFilters}
                   onChange={setGlobalFilters}
+                  looks={filterLooks}
+                  onLooksChange={setFilterLooks}
+                  previewImage={images[0]}
+                />
+
+                {/* Export Settings */}
+                <ExportSettings
+                  exportOptions={exportOptions}
+                  preset={formatOptions.preset}
+                  onChange={setExportOptions}
                 />
 
                 {/* Download Section */}
                 <DownloadAllButton
                   images={images}
+                  formatOptions={formatOptions}
+                  exportOptions={exportOptions}
+                  customPresets={customPresets}
                   disabled={isProcessing}
                 />
               </div>
@@ -201,7 +519,12 @@ function App() {
               <BulkProcessor
                 images={images}
                 formatOptions={formatOptions}
+                exportOptions={exportOptions}
+                filterLooks={filterLooks}
+                onFilterLooksChange={setFilterLooks}
+                showClipping={showClipping}
                 onUpdateImage={handleUpdateImage}
+                onResetImageFilters={handleResetImageFilters}
                 onRemoveImage={handleRemoveImage}
               />
             ) : (
@@ -1,13 +1,29 @@
 import React from 'react';
+import { BackgroundOptions, GradientOptions, GradientStop } from '../types';
 
 interface BackgroundColorPickerProps {
   backgroundColor: string;
+  background: BackgroundOptions;
   onChange: (color: string) => void;
+  onBackgroundChange: (background: BackgroundOptions) => void;
 }
 
+// CSS equivalent of the canvas fill, used for the swatch previews
+const toCssGradient = (gradient: GradientOptions) => {
+  const stops = [...gradient.stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map(stop => `${stop.color} ${stop.offset}%`)
+    .join(', ');
+  return gradient.type === 'radial'
+    ? `radial-gradient(circle farthest-corner, ${stops})`
+    : `linear-gradient(${gradient.angle}deg, ${stops})`;
+};
+
 const BackgroundColorPicker: React.FC<BackgroundColorPickerProps> = ({
   backgroundColor,
+  background,
   onChange,
+  onBackgroundChange,
 }) => {
   const presetColors = [
     '#ffffff', // White
@@ -22,9 +38,251 @@ const BackgroundColorPicker: React.FC<BackgroundColorPickerProps> = ({
     '#fef5e7', // Light Orange
   ];
 
+  const presetGradients: GradientOptions[] = [
+    { type: 'linear', angle: 135, stops: [{ color: '#667eea', offset: 0 }, { color: '#764ba2', offset: 100 }] }, // Indigo
+    { type: 'linear', angle: 90, stops: [{ color: '#f6d365', offset: 0 }, { color: '#fda085', offset: 100 }] }, // Sunset
+    { type: 'linear', angle: 180, stops: [{ color: '#a1c4fd', offset: 0 }, { color: '#c2e9fb', offset: 100 }] }, // Sky
+    { type: 'linear', angle: 45, stops: [{ color: '#ff9a9e', offset: 0 }, { color: '#fecfef', offset: 50 }, { color: '#fad0c4', offset: 100 }] }, // Blush
+    { type: 'radial', angle: 0, stops: [{ color: '#ffffff', offset: 0 }, { color: '#d1d5db', offset: 100 }] }, // Spotlight
+  ];
+
+  const { gradient } = background;
+
+  const updateGradient = (updates: Partial<GradientOptions>) => {
+    onBackgroundChange({ ...background, gradient: { ...gradient, ...updates } });
+  };
+
+  const updateStop = (index: number, updates: Partial<GradientStop>) => {
+    updateGradient({
+      stops: gradient.stops.map((stop, i) => (i === index ? { ...stop, ...updates } : stop)),
+    });
+  };
+
+  const addStop = () => {
+    const last = gradient.stops[gradient.stops.length - 1];
+    updateGradient({ stops: [...gradient.stops, { color: last?.color ?? '#ffffff', offset: 100 }] });
+  };
+
+  const removeStop = (index: number) => {
+    updateGradient({ stops: gradient.stops.filter((_, i) => i !== index) });
+  };
+
+  const handleTextureUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      onBackgroundChange({
+        ...background,
+        image: {
+          src: reader.result as string,
+          name: file.name,
+          fit: background.image?.fit ?? 'tile',
+        },
+      });
+    };
+    reader.onerror = () => {
+      console.error('Error reading background image:', reader.error);
+      alert('Failed to load background image. Please try a different file.');
+    };
+    reader.readAsDataURL(file);
+
+    // Allow re-selecting the same file
+    e.target.value = '';
+  };
+
+  const previewStyle: React.CSSProperties =
+    background.mode === 'gradient'
+      ? { backgroundColor, backgroundImage: toCssGradient(gradient) }
+      : background.mode === 'image' && background.image
+        ? {
+            backgroundColor,
+            backgroundImage: `url(${background.image.src})`,
+            backgroundSize: background.image.fit === 'tile' ? 'auto' : '100% 100%',
+            backgroundRepeat: background.image.fit === 'tile' ? 'repeat' : 'no-repeat',
+          }
+        : { backgroundColor };
+
+  const title =
+    background.mode === 'gradient'
+      ? 'Background Gradient'
+      : background.mode === 'image'
+        ? 'Background Image'
+        : 'Background Color';
+
+  if (background.mode === 'gradient') {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">{title}</h3>
+
+        {/* Gradient Type */}
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {(['linear', 'radial'] as const).map((type) => (
+            <button
+              key={type}
+              onClick={() => updateGradient({ type })}
+              className={`
+                py-2 rounded-lg border text-sm font-medium capitalize transition-colors
+                ${gradient.type === type
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 text-gray-700 hover:border-gray-300 hover:bg-gray-50'
+                }
+              `}
+            >
+              {type}
+            </button>
+          ))}
+        </div>
+
+        {/* Angle */}
+        {gradient.type === 'linear' && (
+          <div className="space-y-2 mb-4">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-gray-700">Angle</label>
+              <span className="text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded text-center min-w-[60px]">
+                {gradient.angle}°
+              </span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={360}
+              step={1}
+              value={gradient.angle}
+              onChange={(e) => updateGradient({ angle: Number(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        )}
+
+        {/* Color Stops */}
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium text-gray-700">Color Stops</label>
+            <button
+              onClick={addStop}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              + Add Stop
+            </button>
+          </div>
+          <div className="space-y-2">
+            {gradient.stops.map((stop, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <input
+                  type="color"
+                  value={stop.color}
+                  onChange={(e) => updateStop(index, { color: e.target.value })}
+                  className="w-8 h-8 border border-gray-300 rounded cursor-pointer overflow-hidden flex-shrink-0"
+                />
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={stop.offset}
+                  onChange={(e) => updateStop(index, { offset: Number(e.target.value) })}
+                  className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+                <span className="text-xs text-gray-500 w-10 text-right">{stop.offset}%</span>
+                <button
+                  onClick={() => removeStop(index)}
+                  disabled={gradient.stops.length <= 2}
+                  className="text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                  title="Remove stop"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Preset Gradients */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Preset Gradients
+          </label>
+          <div className="grid grid-cols-5 gap-2">
+            {presetGradients.map((preset, index) => (
+              <button
+                key={index}
+                onClick={() => onBackgroundChange({ ...background, gradient: preset })}
+                className="w-12 h-12 rounded-lg border-2 border-gray-300 hover:border-gray-400 transition-all duration-200 hover:scale-110"
+                style={{ backgroundImage: toCssGradient(preset) }}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Preview
+          </label>
+          <div className="w-full h-16 rounded-lg border-2 border-gray-300" style={previewStyle} />
+        </div>
+      </div>
+    );
+  }
+
+  if (background.mode === 'image') {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">{title}</h3>
+
+        {/* Upload */}
+        <label className="block w-full border-2 border-dashed border-gray-300 rounded-lg p-4 text-center cursor-pointer hover:border-gray-400 hover:bg-gray-50 transition-colors mb-4">
+          <span className="text-sm font-medium text-gray-700">
+            {background.image ? 'Replace texture' : 'Upload texture or brand image'}
+          </span>
+          {background.image && (
+            <span className="block text-xs text-gray-500 truncate mt-1">{background.image.name}</span>
+          )}
+          <input
+            type="file"
+            accept="image/*"
+            onChange={handleTextureUpload}
+            className="hidden"
+          />
+        </label>
+
+        {/* Fit */}
+        {background.image && (
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            {(['tile', 'stretch'] as const).map((fit) => (
+              <button
+                key={fit}
+                onClick={() => onBackgroundChange({ ...background, image: { ...background.image!, fit } })}
+                className={`
+                  py-2 rounded-lg border text-sm font-medium capitalize transition-colors
+                  ${background.image!.fit === fit
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-200 text-gray-700 hover:border-gray-300 hover:bg-gray-50'
+                  }
+                `}
+              >
+                {fit}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Preview */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Preview
+          </label>
+          <div className="w-full h-16 rounded-lg border-2 border-gray-300" style={previewStyle} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white rounded-lg shadow-sm border p-6">
-      <h3 className="text-lg font-semibold text-gray-900 mb-4">Background Color</h3>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">{title}</h3>
       
       {/* Color Input */}
       <div className="flex items-center space-x-3 mb-4">
@@ -86,7 +344,7 @@ const BackgroundColorPicker: React.FC<BackgroundColorPickerProps> = ({
         <div className="w-full h-16 rounded-lg border-2 border-gray-300 relative overflow-hidden">
           <div 
             className="w-full h-full"
-            style={{ backgroundColor }}
+            style={previewStyle}
           />
           <div className="absolute inset-0 flex items-center justify-center">
             <span className="text-xs font-medium px-2 py-1 bg-black bg-opacity-50 text-white rounded">
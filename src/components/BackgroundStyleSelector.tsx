@@ -0,0 +1,90 @@
+import React from 'react';
+import { BackgroundOptions, BackgroundMode } from '../types';
+
+interface BackgroundStyleSelectorProps {
+  background: BackgroundOptions;
+  onChange: (background: BackgroundOptions) => void;
+}
+
+interface SliderConfig {
+  key: 'blurRadius' | 'dim';
+  label: string;
+  min: number;
+  max: number;
+  unit: string;
+}
+
+const BackgroundStyleSelector: React.FC<BackgroundStyleSelectorProps> = ({
+  background,
+  onChange,
+}) => {
+  const modes: { id: BackgroundMode; label: string; icon: string; description: string }[] = [
+    { id: 'solid', label: 'Solid', icon: '🎨', description: 'Pad with a color' },
+    { id: 'blur', label: 'Blurred', icon: '🌫️', description: 'Blurred copy of the photo' },
+    { id: 'gradient', label: 'Gradient', icon: '🌈', description: 'Linear or radial blend' },
+    { id: 'image', label: 'Image', icon: '🧱', description: 'Tiled or stretched texture' },
+  ];
+
+  const sliders: SliderConfig[] = [
+    { key: 'blurRadius', label: 'Blur Radius', min: 0, max: 100, unit: 'px' },
+    { key: 'dim', label: 'Dim', min: 0, max: 80, unit: '%' },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Background Style</h3>
+
+      {/* Mode Toggle */}
+      <div className="grid grid-cols-2 gap-2">
+        {modes.map((mode) => (
+          <button
+            key={mode.id}
+            onClick={() => onChange({ ...background, mode: mode.id })}
+            className={`
+              p-3 rounded-lg border text-left transition-all duration-200
+              ${background.mode === mode.id
+                ? 'border-blue-500 bg-blue-50 shadow-sm'
+                : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+              }
+            `}
+          >
+            <div className="flex items-center space-x-2">
+              <span className="text-lg">{mode.icon}</span>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900">{mode.label}</div>
+                <div className="text-xs text-gray-500 truncate">{mode.description}</div>
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Blur Controls */}
+      {background.mode === 'blur' && (
+        <div className="space-y-4 mt-4">
+          {sliders.map((slider) => (
+            <div key={slider.key} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-gray-700">{slider.label}</label>
+                <span className="text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded text-center min-w-[60px]">
+                  {background[slider.key]}{slider.unit}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={1}
+                value={background[slider.key]}
+                onChange={(e) => onChange({ ...background, [slider.key]: Number(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackgroundStyleSelector;
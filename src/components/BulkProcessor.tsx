@@ -1,18 +1,28 @@
 import React, { useState } from 'react';
-import { ProcessedImage, FormatOptions } from '../types';
+import { ProcessedImage, FormatOptions, ExportOptions, FilterLook } from '../types';
 import SquareFormatter from './SquareFormatter';
 
 interface BulkProcessorProps {
   images: ProcessedImage[];
   formatOptions: FormatOptions;
+  exportOptions: ExportOptions;
+  filterLooks: FilterLook[];
+  onFilterLooksChange: (looks: FilterLook[]) => void;
+  showClipping: boolean;
   onUpdateImage: (id: string, updates: Partial<ProcessedImage>) => void;
+  onResetImageFilters: (id: string) => void;
   onRemoveImage: (id: string) => void;
 }
 
 const BulkProcessor: React.FC<BulkProcessorProps> = ({
   images,
   formatOptions,
+  exportOptions,
+  filterLooks,
+  onFilterLooksChange,
+  showClipping,
   onUpdateImage,
+  onResetImageFilters,
   onRemoveImage,
 }) => {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
@@ -22,6 +32,7 @@ const BulkProcessor: React.FC<BulkProcessorProps> = ({
   }
 
   const currentImage = images[currentImageIndex];
+  const overriddenCount = images.filter(img => img.overrideFilters).length;
 
   return (
     <div>
@@ -36,6 +47,11 @@ const BulkProcessor: React.FC<BulkProcessorProps> = ({
         <p className="text-xs text-blue-600 mt-1">
           ✨ Filters apply automatically in real-time
         </p>
+        {overriddenCount > 0 && (
+          <p className="text-xs text-amber-700 mt-1">
+            🎚️ {overriddenCount} image{overriddenCount !== 1 ? 's use' : ' uses'} custom filters and won't follow global changes
+          </p>
+        )}
       </div>
 
       {/* Mobile: Fixed Image Carousel + Scrollable Content */}
@@ -90,7 +106,12 @@ const BulkProcessor: React.FC<BulkProcessorProps> = ({
                 key={`preview-${currentImage.id}`}
                 processedImage={currentImage}
                 formatOptions={formatOptions}
+                exportOptions={exportOptions}
+                filterLooks={filterLooks}
+                onFilterLooksChange={onFilterLooksChange}
+                showClipping={showClipping}
                 onUpdate={onUpdateImage}
+                onResetFilters={onResetImageFilters}
                 onRemove={onRemoveImage}
               />
             </div>
@@ -139,6 +160,11 @@ const BulkProcessor: React.FC<BulkProcessorProps> = ({
                     <div className="absolute top-2 left-2 bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded">
                       {index + 1}
                     </div>
+                    {image.overrideFilters && (
+                      <div className="absolute bottom-2 left-2 bg-amber-500 text-white text-xs px-2 py-0.5 rounded font-medium">
+                        Custom
+                      </div>
+                    )}
                     {index === currentImageIndex && (
                       <div className="absolute inset-0 bg-blue-500 bg-opacity-20 flex items-center justify-center">
                         <div className="bg-blue-600 text-white text-xs px-2 py-1 rounded font-medium">
@@ -168,7 +194,12 @@ const BulkProcessor: React.FC<BulkProcessorProps> = ({
               key={image.id}
               processedImage={image}
               formatOptions={formatOptions}
+              exportOptions={exportOptions}
+              filterLooks={filterLooks}
+              onFilterLooksChange={onFilterLooksChange}
+              showClipping={showClipping}
               onUpdate={onUpdateImage}
+              onResetFilters={onResetImageFilters}
               onRemove={onRemoveImage}
             />
           ))}
@@ -0,0 +1,32 @@
+import React, { useEffect, useRef } from 'react';
+import { PhotoRect } from '../types';
+import { drawClippingOverlay } from '../utils/histogram';
+
+interface ClippingOverlayProps {
+  canvas?: HTMLCanvasElement; // the processed preview the overlay is drawn from
+  photoRect?: PhotoRect; // only the photo is marked, not the padding around it
+  style?: React.CSSProperties; // follows the preview while it's being repositioned
+}
+
+// Red over blown highlights, blue over crushed shadows, laid exactly over the preview image
+const ClippingOverlay: React.FC<ClippingOverlayProps> = ({ canvas, photoRect, style }) => {
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (canvas && overlayRef.current) {
+      drawClippingOverlay(canvas, overlayRef.current, photoRect);
+    }
+  }, [canvas, photoRect]);
+
+  if (!canvas) return null;
+
+  return (
+    <canvas
+      ref={overlayRef}
+      className="absolute inset-0 w-full h-full object-contain pointer-events-none opacity-75"
+      style={style}
+    />
+  );
+};
+
+export default ClippingOverlay;
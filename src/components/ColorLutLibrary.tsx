@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { ColorLut, ImageFilters } from '../types';
+import { deleteColorLut, importColorLut } from '../utils/colorLuts';
+import { findLayer, getFilterDefinition, setFilterParams } from '../utils/filterRegistry';
+import { useColorLuts } from '../hooks/useColorLuts';
+
+interface ColorLutLibraryProps {
+  filters: ImageFilters;
+  onChange: (filters: ImageFilters) => void;
+}
+
+const lutFilter = getFilterDefinition('lut')!;
+
+// Imported .cube / HaldCLUT color grades; applying one edits the image's top-most LUT layer
+const ColorLutLibrary: React.FC<ColorLutLibraryProps> = ({ filters, onChange }) => {
+  const luts = useColorLuts();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const layer = findLayer(filters, lutFilter.id);
+
+  const isApplied = (lut: ColorLut) => layer?.params.lutId === lut.id;
+
+  const toggleLut = (lut: ColorLut) => {
+    if (isApplied(lut)) {
+      onChange({ ...filters, layers: filters.layers.filter(l => l.id !== layer!.id) });
+    } else {
+      onChange(setFilterParams(filters, lutFilter, { lutId: lut.id }));
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsImporting(true);
+    for (const file of files) {
+      try {
+        await importColorLut(file);
+      } catch (error) {
+        console.error('Error importing LUT:', error);
+        alert(`Failed to import ${file.name}. ${error instanceof Error ? error.message : ''}`);
+      }
+    }
+    setIsImporting(false);
+  };
+
+  const handleDelete = async (lut: ColorLut) => {
+    if (!confirm(`Delete the "${lut.name}" LUT?`)) return;
+    // Layers grading with it go too
+    if (filters.layers.some(l => l.params.lutId === lut.id)) {
+      onChange({ ...filters, layers: filters.layers.filter(l => l.params.lutId !== lut.id) });
+    }
+    try {
+      await deleteColorLut(lut.id);
+    } catch (error) {
+      console.error('Error deleting LUT:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700">Color LUTs</h4>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={isImporting}
+          className="text-xs font-medium text-gray-600 hover:text-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isImporting ? 'Importing…' : 'Import'}
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".cube,image/png"
+          multiple
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {luts.length === 0 ? (
+        <p className="text-xs text-gray-500">Import a .cube file or a HaldCLUT PNG to use it as a color grade.</p>
+      ) : (
+        luts.map((lut) => (
+          <div key={lut.id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex-1 min-w-0">
+                <label className="block text-sm font-medium text-gray-700 truncate">{lut.name}</label>
+                <p className="text-xs text-gray-500">{lut.size}³ LUT</p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => toggleLut(lut)}
+                  className={`
+                    px-3 py-1 text-xs font-medium rounded-lg transition-colors
+                    ${isApplied(lut)
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-purple-100'
+                    }
+                  `}
+                >
+                  {isApplied(lut) ? 'Applied' : 'Apply'}
+                </button>
+                <button
+                  onClick={() => handleDelete(lut)}
+                  className="w-5 h-5 rounded text-xs text-gray-500 hover:text-red-600"
+                  title="Delete LUT"
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+            {isApplied(lut) && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-gray-600">Intensity</span>
+                  <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded min-w-[48px] text-center">
+                    {layer!.params.amount as number}%
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={layer!.params.amount as number}
+                  onChange={(e) => onChange(setFilterParams(filters, lutFilter, { amount: Number(e.target.value) }))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer
+                    [&::-webkit-slider-thumb]:appearance-none
+                    [&::-webkit-slider-thumb]:h-4
+                    [&::-webkit-slider-thumb]:w-4
+                    [&::-webkit-slider-thumb]:rounded-full
+                    [&::-webkit-slider-thumb]:bg-purple-600
+                    [&::-webkit-slider-thumb]:cursor-pointer
+                    [&::-webkit-slider-thumb]:shadow-sm
+                    [&::-moz-range-thumb]:h-4
+                    [&::-moz-range-thumb]:w-4
+                    [&::-moz-range-thumb]:rounded-full
+                    [&::-moz-range-thumb]:bg-purple-600
+                    [&::-moz-range-thumb]:cursor-pointer
+                    [&::-moz-range-thumb]:border-none"
+                />
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ColorLutLibrary;
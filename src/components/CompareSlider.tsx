@@ -0,0 +1,99 @@
+import React, { useRef } from 'react';
+
+interface CompareSliderProps {
+  beforeUrl: string;
+  position: number; // 0-100, share of the frame from the left that shows the unfiltered render
+  showDivider: boolean;
+  imageStyle?: React.CSSProperties; // follows the preview while it's being repositioned
+  onPositionChange: (position: number) => void;
+}
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+
+/**
+ * Overlay for a preview frame: the unfiltered render on the left of a draggable divider,
+ * the filtered preview underneath showing through on the right.
+ */
+const CompareSlider: React.FC<CompareSliderProps> = ({
+  beforeUrl,
+  position,
+  showDivider,
+  imageStyle,
+  onPositionChange,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const moveTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    onPositionChange(clamp(((clientX - rect.left) / rect.width) * 100));
+  };
+
+  // The divider owns its pointer, so dragging it never repositions the photo
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    moveTo(e.clientX);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      moveTo(e.clientX);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = e.shiftKey ? 10 : 2;
+    if (e.key === 'ArrowLeft') onPositionChange(clamp(position - step));
+    else if (e.key === 'ArrowRight') onPositionChange(clamp(position + step));
+    else return;
+    e.preventDefault();
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none">
+      {beforeUrl && (
+        <div className="absolute inset-0 overflow-hidden" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+          <img
+            src={beforeUrl}
+            alt="Without filters"
+            className="w-full h-full object-contain"
+            style={imageStyle}
+            draggable={false}
+          />
+        </div>
+      )}
+
+      {showDivider && (
+        <>
+          <span className="absolute top-2 left-2 bg-black bg-opacity-50 text-white text-xs px-2 py-0.5 rounded">
+            Before
+          </span>
+          <span className="absolute top-2 right-2 bg-black bg-opacity-50 text-white text-xs px-2 py-0.5 rounded">
+            After
+          </span>
+          <div
+            role="slider"
+            aria-label="Before and after divider"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(position)}
+            tabIndex={0}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onKeyDown={handleKeyDown}
+            className="absolute inset-y-0 w-8 -ml-4 flex justify-center cursor-ew-resize pointer-events-auto touch-none focus:outline-none"
+            style={{ left: `${position}%` }}
+          >
+            <div className="w-0.5 h-full bg-white shadow" />
+            <div className="absolute top-1/2 -translate-y-1/2 w-7 h-7 rounded-full bg-white shadow-md flex items-center justify-center text-gray-600 text-xs">
+              ⇔
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CompareSlider;
@@ -0,0 +1,311 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProcessedImage, ImageTransform, CropRect, defaultTransform } from '../types';
+import { createRotatedImage } from '../utils/imageProcessor';
+import { loadImageFromFile } from '../utils/fileLoader';
+
+interface CropRotateEditorProps {
+  image: ProcessedImage;
+  aspectRatio: number; // preset width/height, 0 when there is nothing to lock to
+  onApply: (transform: ImageTransform) => void;
+  onClose: () => void;
+}
+
+type DragHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  handle: DragHandle;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+  rect: DOMRect;
+}
+
+// Longest edge of the working copy shown in the editor
+const PROXY_SIZE = 1024;
+const MIN_CROP = 0.05;
+
+const fullCrop: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Largest centered crop with the given output aspect ratio
+const getLockedCrop = (ratio: number, imageWidth: number, imageHeight: number): CropRect => {
+  const imageRatio = imageWidth / imageHeight;
+  const width = ratio < imageRatio ? ratio / imageRatio : 1;
+  const height = ratio < imageRatio ? 1 : imageRatio / ratio;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+const CropRotateEditor: React.FC<CropRotateEditorProps> = ({
+  image,
+  aspectRatio,
+  onApply,
+  onClose,
+}) => {
+  const [transform, setTransform] = useState<ImageTransform>(image.transform);
+  const [proxy, setProxy] = useState<HTMLCanvasElement | null>(null);
+  const [previewUrl, setPreviewUrl] = useState('');
+  const [previewSize, setPreviewSize] = useState({ width: 1, height: 1 });
+  const [lockAspect, setLockAspect] = useState(false);
+  const dragState = useRef<DragState | null>(null);
+
+  const crop = transform.crop ?? fullCrop;
+
+  // Build a downscaled working copy once
+  useEffect(() => {
+    let cancelled = false;
+    loadImageFromFile(image.original)
+      .then((img) => {
+        if (cancelled) return;
+        const scale = Math.min(1, PROXY_SIZE / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.width * scale);
+        canvas.height = Math.round(img.height * scale);
+        canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+        setProxy(canvas);
+      })
+      .catch((error) => console.error('Error loading image for cropping:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [image.original]);
+
+  // Re-render the uncropped preview when the geometry changes, but not while only the crop moves
+  const { rotation, straighten, flipH, flipV } = transform;
+  useEffect(() => {
+    if (!proxy) return;
+    // Runs on the main thread, so this is always a regular canvas
+    const rotated = createRotatedImage(proxy, { rotation, straighten, flipH, flipV, crop: null }) as HTMLCanvasElement;
+    setPreviewSize({ width: rotated.width, height: rotated.height });
+    setPreviewUrl(rotated.toDataURL('image/jpeg', 0.9));
+  }, [proxy, rotation, straighten, flipH, flipV]);
+
+  const updateGeometry = (updates: Partial<ImageTransform>) => {
+    setTransform((prev) => {
+      const next = { ...prev, ...updates };
+      // Quarter turns swap the frame, so any crop no longer lines up
+      if (updates.rotation !== undefined && updates.rotation !== prev.rotation) {
+        const quarterTurn = (updates.rotation - prev.rotation) % 180 !== 0;
+        const width = quarterTurn ? previewSize.height : previewSize.width;
+        const height = quarterTurn ? previewSize.width : previewSize.height;
+        next.crop = lockAspect && aspectRatio > 0 ? getLockedCrop(aspectRatio, width, height) : null;
+      }
+      return next;
+    });
+  };
+
+  const rotateBy = (degrees: 90 | -90) => {
+    const rotation = ((transform.rotation + degrees + 360) % 360) as ImageTransform['rotation'];
+    updateGeometry({ rotation });
+  };
+
+  const toggleLock = () => {
+    const locked = !lockAspect;
+    setLockAspect(locked);
+    if (locked && aspectRatio > 0) {
+      setTransform((prev) => ({
+        ...prev,
+        crop: getLockedCrop(aspectRatio, previewSize.width, previewSize.height),
+      }));
+    }
+  };
+
+  const handlePointerDown = (handle: DragHandle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const frame = (e.currentTarget.closest('[data-crop-frame]') as HTMLElement).getBoundingClientRect();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragState.current = { handle, startX: e.clientX, startY: e.clientY, startCrop: crop, rect: frame };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragState.current;
+    if (!drag) return;
+
+    const dx = (e.clientX - drag.startX) / drag.rect.width;
+    const dy = (e.clientY - drag.startY) / drag.rect.height;
+    const start = drag.startCrop;
+
+    if (drag.handle === 'move') {
+      setTransform((prev) => ({
+        ...prev,
+        crop: {
+          ...start,
+          x: clamp(start.x + dx, 0, 1 - start.width),
+          y: clamp(start.y + dy, 0, 1 - start.height),
+        },
+      }));
+      return;
+    }
+
+    // Resize from a corner, keeping the opposite corner anchored
+    const dirX = drag.handle.includes('e') ? 1 : -1;
+    const dirY = drag.handle.includes('s') ? 1 : -1;
+    const anchorX = dirX > 0 ? start.x : start.x + start.width;
+    const anchorY = dirY > 0 ? start.y : start.y + start.height;
+    const maxWidth = dirX > 0 ? 1 - anchorX : anchorX;
+    const maxHeight = dirY > 0 ? 1 - anchorY : anchorY;
+
+    let width = clamp(start.width + dirX * dx, MIN_CROP, maxWidth);
+    let height = clamp(start.height + dirY * dy, MIN_CROP, maxHeight);
+
+    if (lockAspect && aspectRatio > 0) {
+      // Height fraction per width fraction for the locked output ratio
+      const k = previewSize.width / (previewSize.height * aspectRatio);
+      width = clamp(Math.max(width, height / k), MIN_CROP, Math.min(maxWidth, maxHeight / k));
+      height = width * k;
+    }
+
+    setTransform((prev) => ({
+      ...prev,
+      crop: {
+        x: dirX > 0 ? anchorX : anchorX - width,
+        y: dirY > 0 ? anchorY : anchorY - height,
+        width,
+        height,
+      },
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragState.current = null;
+  };
+
+  const handles: { id: DragHandle; className: string }[] = [
+    { id: 'nw', className: '-top-2 -left-2 cursor-nwse-resize' },
+    { id: 'ne', className: '-top-2 -right-2 cursor-nesw-resize' },
+    { id: 'sw', className: '-bottom-2 -left-2 cursor-nesw-resize' },
+    { id: 'se', className: '-bottom-2 -right-2 cursor-nwse-resize' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-80 flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 text-white flex-shrink-0">
+        <button onClick={onClose} className="text-sm font-medium text-gray-300 hover:text-white">
+          Cancel
+        </button>
+        <h3 className="text-sm font-semibold truncate mx-4">Crop & Rotate</h3>
+        <button
+          onClick={() => onApply(transform)}
+          className="bg-blue-600 text-white px-4 py-1 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+        >
+          Apply
+        </button>
+      </div>
+
+      {/* Crop Area */}
+      <div className="flex-1 flex items-center justify-center p-6 overflow-hidden">
+        {previewUrl ? (
+          <div
+            data-crop-frame
+            className="relative max-w-full max-h-full select-none"
+            style={{ aspectRatio: previewSize.width / previewSize.height, touchAction: 'none' }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <img
+              src={previewUrl}
+              alt="Crop preview"
+              className="block w-full h-full object-contain pointer-events-none"
+              draggable={false}
+            />
+            <div
+              className="absolute border-2 border-white cursor-move"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+              }}
+              onPointerDown={handlePointerDown('move')}
+            >
+              {/* Rule of thirds */}
+              <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+                {Array.from({ length: 9 }).map((_, i) => (
+                  <div key={i} className="border border-white border-opacity-30" />
+                ))}
+              </div>
+              {handles.map((handle) => (
+                <div
+                  key={handle.id}
+                  className={`absolute w-4 h-4 bg-white rounded-sm ${handle.className}`}
+                  onPointerDown={handlePointerDown(handle.id)}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="bg-gray-900 text-white p-4 space-y-4 flex-shrink-0">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-gray-300">Straighten</label>
+            <span className="text-sm text-gray-400">{transform.straighten}°</span>
+          </div>
+          <input
+            type="range"
+            min={-45}
+            max={45}
+            step={0.5}
+            value={transform.straighten}
+            onChange={(e) => updateGeometry({ straighten: Number(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => rotateBy(-90)}
+            className="px-3 py-2 bg-gray-800 rounded-lg text-sm hover:bg-gray-700 transition-colors"
+          >
+            ⟲ Rotate Left
+          </button>
+          <button
+            onClick={() => rotateBy(90)}
+            className="px-3 py-2 bg-gray-800 rounded-lg text-sm hover:bg-gray-700 transition-colors"
+          >
+            ⟳ Rotate Right
+          </button>
+          <button
+            onClick={() => updateGeometry({ flipH: !transform.flipH })}
+            className={`px-3 py-2 rounded-lg text-sm transition-colors ${transform.flipH ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+          >
+            ⇋ Flip H
+          </button>
+          <button
+            onClick={() => updateGeometry({ flipV: !transform.flipV })}
+            className={`px-3 py-2 rounded-lg text-sm transition-colors ${transform.flipV ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+          >
+            ⇵ Flip V
+          </button>
+          {aspectRatio > 0 && (
+            <button
+              onClick={toggleLock}
+              className={`px-3 py-2 rounded-lg text-sm transition-colors ${lockAspect ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+              title="Lock the crop to the selected format's aspect ratio"
+            >
+              🔒 Lock {Math.round(aspectRatio * 100) / 100}:1
+            </button>
+          )}
+          <button
+            onClick={() => {
+              setTransform({ ...defaultTransform });
+              setLockAspect(false);
+            }}
+            className="px-3 py-2 bg-gray-800 rounded-lg text-sm hover:bg-gray-700 transition-colors ml-auto"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CropRotateEditor;
@@ -0,0 +1,170 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CurveChannel, CurvePoint, ToneCurves, defaultCurves } from '../types';
+import { curveChannels, isIdentityCurve, sampleCurve } from '../utils/toneCurves';
+
+interface CurvesEditorProps {
+  curves: ToneCurves;
+  onChange: (curves: ToneCurves) => void;
+}
+
+const channelStyles: Record<CurveChannel, { label: string; stroke: string; active: string }> = {
+  master: { label: 'RGB', stroke: '#374151', active: 'bg-gray-800 text-white' },
+  red: { label: 'Red', stroke: '#ef4444', active: 'bg-red-500 text-white' },
+  green: { label: 'Green', stroke: '#22c55e', active: 'bg-green-500 text-white' },
+  blue: { label: 'Blue', stroke: '#3b82f6', active: 'bg-blue-500 text-white' },
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const toPolyline = (points: CurvePoint[]) =>
+  Array.from(sampleCurve(points), (y, x) => `${x},${255 - y}`).join(' ');
+
+/**
+ * Tone curve editor, master plus per-channel.
+ * Click the curve area to add a point, drag points to shape it, double-click a point to remove it.
+ */
+const CurvesEditor: React.FC<CurvesEditorProps> = ({ curves, onChange }) => {
+  const [channel, setChannel] = useState<CurveChannel>('master');
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragIndex = useRef<number | null>(null);
+
+  const points = curves[channel];
+  const polyline = useMemo(() => toPolyline(points), [points]);
+
+  const toCurveSpace = (e: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(Math.round(((e.clientX - rect.left) / rect.width) * 255), 0, 255),
+      y: clamp(Math.round(255 - ((e.clientY - rect.top) / rect.height) * 255), 0, 255),
+    };
+  };
+
+  const setPoints = (next: CurvePoint[]) => onChange({ ...curves, [channel]: next });
+
+  // Points keep their order: each one stays between its neighbours
+  const movePoint = (index: number, target: CurvePoint) => {
+    const minX = index === 0 ? 0 : points[index - 1].x + 1;
+    const maxX = index === points.length - 1 ? 255 : points[index + 1].x - 1;
+    setPoints(points.map((point, i) => (i === index ? { x: clamp(target.x, minX, maxX), y: target.y } : point)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const target = toCurveSpace(e);
+    svgRef.current!.setPointerCapture(e.pointerId);
+
+    const index = points.findIndex(point => point.x >= target.x);
+    if (index !== -1 && points[index].x === target.x) {
+      dragIndex.current = index;
+      movePoint(index, target);
+      return;
+    }
+    // Otherwise add a point there and keep dragging it
+    const insertAt = index === -1 ? points.length : index;
+    dragIndex.current = insertAt;
+    setPoints([...points.slice(0, insertAt), target, ...points.slice(insertAt)]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex.current === null) return;
+    movePoint(dragIndex.current, toCurveSpace(e));
+  };
+
+  const endDrag = () => {
+    dragIndex.current = null;
+  };
+
+  const removePoint = (index: number) => {
+    // The end points anchor the curve
+    if (index === 0 || index === points.length - 1) return;
+    setPoints(points.filter((_, i) => i !== index));
+  };
+
+  const startPointDrag = (e: React.PointerEvent, index: number) => {
+    e.stopPropagation();
+    svgRef.current!.setPointerCapture(e.pointerId);
+    dragIndex.current = index;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700">Curves</label>
+        <button
+          onClick={() => onChange({ ...curves, [channel]: defaultCurves[channel] })}
+          disabled={isIdentityCurve(points)}
+          className="text-xs text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Reset {channelStyles[channel].label}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {curveChannels.map((id) => (
+          <button
+            key={id}
+            onClick={() => setChannel(id)}
+            className={`py-1 rounded text-xs font-medium transition-colors ${
+              channel === id ? channelStyles[id].active : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {channelStyles[id].label}
+            {!isIdentityCurve(curves[id]) && ' •'}
+          </button>
+        ))}
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox="0 0 255 255"
+        className="w-full aspect-square bg-gray-50 border border-gray-200 rounded cursor-crosshair touch-none select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        {/* Quarter grid and the identity diagonal */}
+        {[64, 128, 191].map(v => (
+          <g key={v} stroke="#e5e7eb" strokeWidth={1}>
+            <line x1={v} y1={0} x2={v} y2={255} />
+            <line x1={0} y1={v} x2={255} y2={v} />
+          </g>
+        ))}
+        <line x1={0} y1={255} x2={255} y2={0} stroke="#d1d5db" strokeDasharray="4 4" />
+
+        {/* Other edited channels, faintly */}
+        {curveChannels
+          .filter(id => id !== channel && !isIdentityCurve(curves[id]))
+          .map(id => (
+            <polyline
+              key={id}
+              points={toPolyline(curves[id])}
+              fill="none"
+              stroke={channelStyles[id].stroke}
+              strokeOpacity={0.3}
+              strokeWidth={1.5}
+            />
+          ))}
+
+        <polyline points={polyline} fill="none" stroke={channelStyles[channel].stroke} strokeWidth={2} />
+
+        {points.map((point, index) => (
+          <circle
+            key={index}
+            cx={point.x}
+            cy={255 - point.y}
+            r={6}
+            fill="white"
+            stroke={channelStyles[channel].stroke}
+            strokeWidth={2}
+            className="cursor-move"
+            onPointerDown={(e) => startPointDrag(e, index)}
+            onDoubleClick={() => removePoint(index)}
+          />
+        ))}
+      </svg>
+      <p className="text-xs text-gray-500">Click to add a point, drag to shape, double-click a point to remove it</p>
+    </div>
+  );
+};
+
+export default CurvesEditor;
@@ -1,46 +1,49 @@
 import React, { useState } from 'react';
-import JSZip from 'jszip';
-import { ProcessedImage } from '../types';
+import { ProcessedImage, FormatOptions, FormatPreset, ExportOptions, formatPresets } from '../types';
+import { exportImage, exportImagesAsZip, exportPresetsAsZip, getExportFilename, describeExport, formatBytes, downloadBlob, ExportedFile } from '../utils/exporter';
 
 interface DownloadAllButtonProps {
   images: ProcessedImage[];
+  formatOptions: FormatOptions;
+  exportOptions: ExportOptions;
+  customPresets: FormatPreset[];
   disabled?: boolean;
 }
 
-const DownloadAllButton: React.FC<DownloadAllButtonProps> = ({ images, disabled = false }) => {
+const getFileName = (image: ProcessedImage) => image.original.name.replace(/\.[^/.]+$/, '');
+const getBaseName = (image: ProcessedImage) => `square_${getFileName(image)}`;
+
+const DownloadAllButton: React.FC<DownloadAllButtonProps> = ({ images, formatOptions, exportOptions, customPresets, disabled = false }) => {
   const [isCreatingZip, setIsCreatingZip] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isExportingPresets, setIsExportingPresets] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [exportedFiles, setExportedFiles] = useState<ExportedFile[]>([]);
+  const [showPresetPicker, setShowPresetPicker] = useState(false);
+  const [selectedPresetIds, setSelectedPresetIds] = useState<string[]>([]);
+
+  const allPresets = [...formatPresets, ...customPresets];
+  // Keep the picked order stable by following the preset list, and forget deleted presets
+  const selectedPresets = allPresets.filter(preset => selectedPresetIds.includes(preset.id));
+  const isBusy = disabled || isCreatingZip || isDownloading || isExportingPresets;
 
-  const processedImages = images.filter(img => img.canvas);
+  const togglePreset = (id: string, checked: boolean) => {
+    setSelectedPresetIds(prev => checked ? [...prev, id] : prev.filter(presetId => presetId !== id));
+  };
 
   const downloadAll = async () => {
-    if (processedImages.length === 0) return;
+    if (images.length === 0) return;
 
     setIsCreatingZip(true);
+    setExportedFiles([]);
 
     try {
-      const zip = new JSZip();
-
-      // Add each processed image to the zip
-      for (const image of processedImages) {
-        if (image.canvas) {
-          const dataUrl = image.canvas.toDataURL('image/png');
-          const base64Data = dataUrl.split(',')[1];
-          const filename = `square_${image.original.name.replace(/\.[^/.]+$/, '')}.png`;
-          zip.file(filename, base64Data, { base64: true });
-        }
-      }
-
-      // Generate and download the zip file
-      const zipBlob = await zip.generateAsync({ type: 'blob' });
-      const url = URL.createObjectURL(zipBlob);
-      
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `photosquare_images_${new Date().toISOString().split('T')[0]}.zip`;
-      link.click();
-      
-      // Clean up
-      URL.revokeObjectURL(url);
+      // Every image is rendered fresh at full resolution through the worker pool
+      const { zip, files } = await exportImagesAsZip(images, formatOptions, exportOptions, getBaseName, (completed, total) =>
+        setProgress({ completed, total })
+      );
+      downloadBlob(zip, `photosquare_images_${new Date().toISOString().split('T')[0]}.zip`);
+      setExportedFiles(files);
     } catch (error) {
       console.error('Error creating zip file:', error);
       alert('Failed to create zip file. Please try again.');
@@ -49,19 +52,51 @@ const DownloadAllButton: React.FC<DownloadAllButtonProps> = ({ images, disabled
     }
   };
 
-  const downloadIndividually = () => {
-    processedImages.forEach((image) => {
-      if (image.canvas) {
-        const filename = `square_${image.original.name.replace(/\.[^/.]+$/, '')}.png`;
-        const link = document.createElement('a');
-        link.download = filename;
-        link.href = image.canvas.toDataURL('image/png');
-        link.click();
+  const downloadIndividually = async () => {
+    setIsDownloading(true);
+    setExportedFiles([]);
+    setProgress({ completed: 0, total: images.length });
+
+    try {
+      for (let i = 0; i < images.length; i++) {
+        const result = await exportImage(images[i], formatOptions, exportOptions);
+        const filename = getExportFilename(getBaseName(images[i]), result.blob);
+        downloadBlob(result.blob, filename);
+        setExportedFiles(prev => [...prev, describeExport(filename, result)]);
+        setProgress({ completed: i + 1, total: images.length });
       }
-    });
+    } catch (error) {
+      console.error('Error downloading images:', error);
+      alert('Failed to download images. Please try again.');
+    } finally {
+      setIsDownloading(false);
+    }
   };
 
-  if (processedImages.length === 0) {
+  const downloadPresets = async () => {
+    if (images.length === 0 || selectedPresets.length === 0) return;
+
+    setIsExportingPresets(true);
+    setExportedFiles([]);
+
+    try {
+      // One folder per preset, so the file names inside can stay plain
+      const { zip, files } = await exportPresetsAsZip(images, formatOptions, selectedPresets, exportOptions, getFileName, (completed, total) =>
+        setProgress({ completed, total })
+      );
+      downloadBlob(zip, `photosquare_formats_${new Date().toISOString().split('T')[0]}.zip`);
+      setExportedFiles(files);
+    } catch (error) {
+      console.error('Error creating multi-format zip file:', error);
+      alert('Failed to create zip file. Please try again.');
+    } finally {
+      setIsExportingPresets(false);
+    }
+  };
+
+  const renderingLabel = `Rendering ${progress.completed}/${progress.total}`;
+
+  if (images.length === 0) {
     return null;
   }
 
@@ -71,7 +106,7 @@ const DownloadAllButton: React.FC<DownloadAllButtonProps> = ({ images, disabled
         <div>
           <h3 className="text-lg font-semibold text-gray-900">Download Options</h3>
           <p className="text-sm text-gray-500">
-            {processedImages.length} of {images.length} images ready for download
+            {images.length} image{images.length === 1 ? '' : 's'} ready for download
           </p>
         </div>
       </div>
@@ -79,13 +114,13 @@ const DownloadAllButton: React.FC<DownloadAllButtonProps> = ({ images, disabled
       <div className="flex flex-col sm:flex-row gap-3">
         <button
           onClick={downloadAll}
-          disabled={disabled || isCreatingZip || processedImages.length === 0}
+          disabled={isBusy}
           className="flex-1 bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
         >
           {isCreatingZip ? (
             <>
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-              <span>Creating ZIP...</span>
+              <span>{progress.completed < progress.total ? renderingLabel : 'Creating ZIP...'}</span>
             </>
           ) : (
             <>
@@ -99,21 +134,98 @@ const DownloadAllButton: React.FC<DownloadAllButtonProps> = ({ images, disabled
 
         <button
           onClick={downloadIndividually}
-          disabled={disabled || processedImages.length === 0}
+          disabled={isBusy}
           className="flex-1 bg-gray-100 text-gray-700 px-6 py-3 rounded-lg font-medium hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
         >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-          </svg>
-          <span>Download Individual</span>
+          {isDownloading ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-700"></div>
+              <span>{renderingLabel}</span>
+            </>
+          ) : (
+            <>
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+              <span>Download Individual</span>
+            </>
+          )}
         </button>
       </div>
 
-      {images.length > processedImages.length && (
-        <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
-          <p className="text-sm text-amber-800">
-            <strong>Note:</strong> {images.length - processedImages.length} image(s) are still processing and won't be included in the download.
-          </p>
+      {/* Multiple Formats */}
+      <div className="mt-4 border-t pt-4">
+        <button
+          onClick={() => setShowPresetPicker(!showPresetPicker)}
+          className="w-full flex items-center justify-between text-sm font-medium text-gray-900"
+        >
+          <span>Multiple formats{selectedPresets.length > 0 && ` (${selectedPresets.length})`}</span>
+          <span className="text-gray-400">{showPresetPicker ? '−' : '+'}</span>
+        </button>
+
+        {showPresetPicker && (
+          <div className="mt-3 space-y-3">
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {allPresets.map((preset) => (
+                <li key={preset.id}>
+                  <label className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={selectedPresetIds.includes(preset.id)}
+                      onChange={(e) => togglePreset(preset.id, e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600"
+                    />
+                    <span>{preset.icon}</span>
+                    <span className="flex-1 truncate text-gray-700">
+                      {preset.platform ? `${preset.platform} ${preset.name}` : preset.name}
+                    </span>
+                    {preset.width > 0 && (
+                      <span className="text-xs text-gray-500">{preset.width}×{preset.height}</span>
+                    )}
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={downloadPresets}
+              disabled={isBusy || selectedPresets.length === 0}
+              className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+            >
+              {isExportingPresets ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                  <span>{progress.completed < progress.total ? renderingLabel : 'Creating ZIP...'}</span>
+                </>
+              ) : (
+                <span>
+                  Download {selectedPresets.length} format{selectedPresets.length === 1 ? '' : 's'} as ZIP
+                </span>
+              )}
+            </button>
+            <p className="text-xs text-gray-500">
+              One folder per format with every image, using the current filters and background.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Size report for the last export */}
+      {exportedFiles.length > 0 && (
+        <div className="mt-4 border-t pt-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Last export</h4>
+          <ul className="space-y-1 max-h-48 overflow-y-auto">
+            {exportedFiles.map((file) => (
+              <li key={file.filename} className="flex items-center justify-between text-xs">
+                <span className="truncate text-gray-700 mr-2" title={file.filename}>{file.filename}</span>
+                <span className={`flex-shrink-0 ${file.withinLimit ? 'text-gray-500' : 'text-amber-700 font-medium'}`}>
+                  {formatBytes(file.size)}
+                  {file.quality !== undefined && ` · q${Math.round(file.quality * 100)}`}
+                  {` · ${file.width}×${file.height}`}
+                  {!file.withinLimit && ' · over limit'}
+                </span>
+              </li>
+            ))}
+          </ul>
         </div>
       )}
     </div>
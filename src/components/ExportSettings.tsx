@@ -0,0 +1,211 @@
+import React from 'react';
+import { ExportOptions, FormatPreset, MetadataField, MetadataMode, exportFormats, metadataFields } from '../types';
+import { getExportFormat, isExportFormatSupported } from '../utils/exporter';
+
+const DEFAULT_SIZE_LIMIT_KB = 500;
+
+const metadataModes: { id: MetadataMode; name: string; description: string }[] = [
+  { id: 'strip', name: 'Strip', description: 'Remove everything, including location' },
+  { id: 'keep', name: 'Keep', description: 'Copy all of the original metadata' },
+  { id: 'select', name: 'Select', description: 'Keep chosen fields and add your credit' },
+];
+
+interface ExportSettingsProps {
+  exportOptions: ExportOptions;
+  preset: FormatPreset;
+  onChange: (exportOptions: ExportOptions) => void;
+}
+
+const ExportSettings: React.FC<ExportSettingsProps> = ({
+  exportOptions,
+  preset,
+  onChange,
+}) => {
+  const format = getExportFormat(exportOptions.format);
+  const { metadata } = exportOptions;
+
+  const updateMetadata = (updates: Partial<ExportOptions['metadata']>) =>
+    onChange({ ...exportOptions, metadata: { ...metadata, ...updates } });
+
+  const toggleField = (field: MetadataField, enabled: boolean) =>
+    updateMetadata({ fields: enabled ? [...metadata.fields, field] : metadata.fields.filter(f => f !== field) });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Export Settings</h3>
+
+      {/* Format */}
+      <div className="grid grid-cols-4 gap-2">
+        {exportFormats.map((option) => {
+          const supported = isExportFormatSupported(option.id);
+          return (
+            <button
+              key={option.id}
+              onClick={() => onChange({ ...exportOptions, format: option.id })}
+              disabled={!supported}
+              title={supported ? undefined : `${option.name} export isn't supported by this browser`}
+              className={`
+                py-2 rounded-lg border text-sm font-medium transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed
+                ${exportOptions.format === option.id
+                  ? 'border-blue-500 bg-blue-50 text-blue-700 shadow-sm'
+                  : 'border-gray-200 text-gray-700 hover:border-gray-300 hover:bg-gray-50'
+                }
+              `}
+            >
+              {option.name}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Quality */}
+      {format.lossy && (
+        <div className="space-y-2 mt-4">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-gray-700">Quality</label>
+            <span className="text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded text-center min-w-[60px]">
+              {exportOptions.quality}%
+            </span>
+          </div>
+          <input
+            type="range"
+            min={1}
+            max={100}
+            step={1}
+            value={exportOptions.quality}
+            onChange={(e) => onChange({ ...exportOptions, quality: Number(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+
+      {/* Transparency only survives in the original preset */}
+      {preset.id === 'original' && (
+        <label className="flex items-center space-x-2 mt-4">
+          <input
+            type="checkbox"
+            checked={format.transparency && exportOptions.keepTransparency}
+            disabled={!format.transparency}
+            onChange={(e) => onChange({ ...exportOptions, keepTransparency: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600"
+          />
+          <span className={`text-sm ${format.transparency ? 'text-gray-700' : 'text-gray-400'}`}>
+            Keep transparency
+            {!format.transparency && ` (not supported by ${format.name})`}
+          </span>
+        </label>
+      )}
+
+      {/* Size Limit */}
+      <div className="mt-4 space-y-3">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={exportOptions.maxFileSizeKB > 0}
+            onChange={(e) => onChange({ ...exportOptions, maxFileSizeKB: e.target.checked ? DEFAULT_SIZE_LIMIT_KB : 0 })}
+            className="rounded border-gray-300 text-blue-600"
+          />
+          <span className="text-sm text-gray-700">Keep files under a size limit</span>
+        </label>
+
+        {exportOptions.maxFileSizeKB > 0 && (
+          <>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                min={10}
+                step={10}
+                value={exportOptions.maxFileSizeKB}
+                onChange={(e) => onChange({ ...exportOptions, maxFileSizeKB: Math.max(1, Number(e.target.value) || 1) })}
+                className="w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+              <span className="text-sm text-gray-500">KB per image</span>
+            </div>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={exportOptions.allowDownscale}
+                onChange={(e) => onChange({ ...exportOptions, allowDownscale: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600"
+              />
+              <span className="text-sm text-gray-700">Downscale if lowering quality isn't enough</span>
+            </label>
+            {!format.lossy && (
+              <p className="text-xs text-gray-500">
+                {format.name} is lossless, so only downscaling can make files smaller.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Metadata */}
+      <div className="mt-6 pt-4 border-t space-y-3">
+        <h4 className="text-sm font-medium text-gray-900">Metadata</h4>
+        <div className="grid grid-cols-3 gap-2">
+          {metadataModes.map((mode) => (
+            <button
+              key={mode.id}
+              onClick={() => updateMetadata({ mode: mode.id })}
+              title={mode.description}
+              className={`
+                py-2 rounded-lg border text-sm font-medium transition-all duration-200
+                ${metadata.mode === mode.id
+                  ? 'border-blue-500 bg-blue-50 text-blue-700 shadow-sm'
+                  : 'border-gray-200 text-gray-700 hover:border-gray-300 hover:bg-gray-50'
+                }
+              `}
+            >
+              {mode.name}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          {metadataModes.find(mode => mode.id === metadata.mode)?.description}
+        </p>
+
+        {metadata.mode === 'select' && (
+          <>
+            <div className="space-y-2">
+              {metadataFields.map((field) => (
+                <label key={field.id} className="flex items-center space-x-2" title={field.description}>
+                  <input
+                    type="checkbox"
+                    checked={metadata.fields.includes(field.id)}
+                    onChange={(e) => toggleField(field.id, e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600"
+                  />
+                  <span className="text-sm text-gray-700">{field.name}</span>
+                </label>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={metadata.author}
+                onChange={(e) => updateMetadata({ author: e.target.value })}
+                placeholder="Author (team-wide)"
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+              <input
+                type="text"
+                value={metadata.copyright}
+                onChange={(e) => updateMetadata({ copyright: e.target.value })}
+                placeholder="Copyright, e.g. © 2026 Studio"
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </div>
+          </>
+        )}
+
+        {metadata.mode !== 'strip' && format.id !== 'jpeg' && (
+          <p className="text-xs text-amber-700">
+            Metadata is only written to JPEG files, {format.name} exports are stripped.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportSettings;
@@ -1,188 +1,85 @@
 import React, { useState } from 'react';
-import { ImageFilters } from '../types';
+import { FilterLook, FilterParams, ImageFilters, ProcessedImage, defaultFilters } from '../types';
+import { FilterDefinition, applyFilmLook, getFilterParams, getFiltersByCategory, setFilterParams } from '../utils/filterRegistry';
+import LookLibrary from './LookLibrary';
+import ColorLutLibrary from './ColorLutLibrary';
+import FilterParamControls from './FilterParamControls';
+import LayerStack from './LayerStack';
 
 interface FilterEditorProps {
   filters: ImageFilters;
   onChange: (filters: ImageFilters) => void;
+  looks?: FilterLook[]; // saved looks, listed in the Presets tab when provided
+  onLooksChange?: (looks: FilterLook[]) => void;
+  previewImage?: ProcessedImage | null; // photo used for look thumbnails
+  onEditMask?: (layerId: string) => void; // drag a layer's mask on the photo's preview
 }
 
-interface FilterConfig {
-  key: keyof ImageFilters;
-  label: string;
-  min: number;
-  max: number;
-  step: number;
-  unit: string;
-}
-
-interface PresetFilterConfig {
-  key: keyof ImageFilters;
-  label: string;
-  emoji: string;
-  description: string;
-}
+const basicFilters = getFiltersByCategory('basic');
+const advancedFilters = getFiltersByCategory('advanced');
+const toneFilters = getFiltersByCategory('tone');
+const presetFilters = getFiltersByCategory('presets');
 
-const FilterEditor: React.FC<FilterEditorProps> = ({ filters, onChange }) => {
-  const [activeTab, setActiveTab] = useState<'basic' | 'advanced' | 'presets'>('basic');
+const FilterEditor: React.FC<FilterEditorProps> = ({ filters, onChange, looks, onLooksChange, previewImage, onEditMask }) => {
+  const [activeTab, setActiveTab] = useState<'basic' | 'advanced' | 'tone' | 'presets' | 'layers'>('basic');
 
-  const handleFilterChange = (key: keyof ImageFilters, value: number) => {
-    onChange({
-      ...filters,
-      [key]: value,
-    });
+  // Tab controls edit the filter's top-most layer, adding one on the first change
+  const handleFilterChange = (definition: FilterDefinition, changes: FilterParams) => {
+    onChange(setFilterParams(filters, definition, changes));
   };
 
   const resetFilters = () => {
-    onChange({
-      grayscale: 0,
-      sepia: 0,
-      brightness: 100,
-      contrast: 100,
-      saturation: 100,
-      hue: 0,
-      blur: 0,
-      sharpen: 0,
-      vignette: 0,
-      temperature: 0,
-      vintage: 0,
-      drama: 0,
-      clarify: 0,
-      hdr: 0,
-      lomo: 0,
-      cross: 0,
-      pinhole: 0,
-      kodachrome: 0,
-      technicolor: 0,
-      polaroid: 0,
-    });
+    onChange({ ...defaultFilters });
   };
 
-  const basicFilters: FilterConfig[] = [
-    { key: 'brightness', label: 'Brightness', min: 0, max: 200, step: 1, unit: '%' },
-    { key: 'contrast', label: 'Contrast', min: 0, max: 200, step: 1, unit: '%' },
-    { key: 'saturation', label: 'Saturation', min: 0, max: 200, step: 1, unit: '%' },
-    { key: 'grayscale', label: 'Grayscale', min: 0, max: 100, step: 1, unit: '%' },
-    { key: 'sepia', label: 'Sepia', min: 0, max: 100, step: 1, unit: '%' },
-  ];
-
-  const advancedFilters: FilterConfig[] = [
-    { key: 'hue', label: 'Hue', min: -180, max: 180, step: 1, unit: '°' },
-    { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1, unit: '' },
-    { key: 'blur', label: 'Blur', min: 0, max: 10, step: 0.1, unit: 'px' },
-    { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1, unit: '%' },
-    { key: 'vignette', label: 'Vignette', min: 0, max: 100, step: 1, unit: '%' },
-    { key: 'clarify', label: 'Clarify', min: 0, max: 100, step: 1, unit: '%' },
-    { key: 'hdr', label: 'HDR', min: 0, max: 100, step: 1, unit: '%' },
-  ];
-
-  const presetFilters: PresetFilterConfig[] = [
-    { key: 'vintage', label: 'Vintage', emoji: '📸', description: 'Classic film look' },
-    { key: 'drama', label: 'Drama', emoji: '🎭', description: 'High contrast drama' },
-    { key: 'lomo', label: 'Lomo', emoji: '📷', description: 'Lomography style' },
-    { key: 'cross', label: 'Cross Process', emoji: '🌈', description: 'Color cross processing' },
-    { key: 'pinhole', label: 'Pinhole', emoji: '🕳️', description: 'Pinhole camera effect' },
-    { key: 'kodachrome', label: 'Kodachrome', emoji: '🎞️', description: 'Warm film emulation' },
-    { key: 'technicolor', label: 'Technicolor', emoji: '🎨', description: 'Enhanced color saturation' },
-    { key: 'polaroid', label: 'Polaroid', emoji: '📸', description: 'Instant photo look' },
-  ];
-
-  const applyPreset = (presetKey: keyof ImageFilters) => {
-    // Reset all preset filters first
-    const resetPresets = {
-      vintage: 0,
-      drama: 0,
-      lomo: 0,
-      cross: 0,
-      pinhole: 0,
-      kodachrome: 0,
-      technicolor: 0,
-      polaroid: 0,
-    };
-    
-    // Apply the selected preset with default intensity
-    const newFilters = {
-      ...filters,
-      ...resetPresets,
-      [presetKey]: 70, // Default intensity of 70%
-    };
-    
-    onChange(newFilters);
-  };
+  const getAmount = (definition: FilterDefinition) => getFilterParams(filters, definition).amount as number;
 
-  const isPresetActive = (presetKey: keyof ImageFilters) => {
-    return filters[presetKey] > 0;
-  };
+  const isPresetActive = (definition: FilterDefinition) => getAmount(definition) > 0;
 
   const tabs = [
     { id: 'basic' as const, label: 'Basic', icon: '⚡' },
     { id: 'advanced' as const, label: 'Advanced', icon: '🔧' },
+    { id: 'tone' as const, label: 'Tone', icon: '📈' },
     { id: 'presets' as const, label: 'Presets', icon: '🎨' },
+    { id: 'layers' as const, label: 'Layers', icon: '📚' },
   ];
 
-  const renderSlider = (config: FilterConfig) => (
-    <div key={config.key} className="space-y-2">
-      <div className="flex items-center justify-between">
-        <label className="text-sm font-medium text-gray-700">
-          {config.label}
-        </label>
-        <span className="text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded text-center min-w-[60px]">
-          {filters[config.key]}{config.unit}
-        </span>
-      </div>
-      <input
-        type="range"
-        min={config.min}
-        max={config.max}
-        step={config.step}
-        value={filters[config.key]}
-        onChange={(e) => handleFilterChange(config.key, Number(e.target.value))}
-        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer 
-          [&::-webkit-slider-thumb]:appearance-none 
-          [&::-webkit-slider-thumb]:h-4 
-          [&::-webkit-slider-thumb]:w-4 
-          [&::-webkit-slider-thumb]:rounded-full 
-          [&::-webkit-slider-thumb]:bg-blue-600 
-          [&::-webkit-slider-thumb]:cursor-pointer 
-          [&::-webkit-slider-thumb]:shadow-sm
-          [&::-webkit-slider-thumb]:hover:bg-blue-700
-          [&::-webkit-slider-thumb]:transition-colors
-          [&::-moz-range-thumb]:h-4 
-          [&::-moz-range-thumb]:w-4 
-          [&::-moz-range-thumb]:rounded-full 
-          [&::-moz-range-thumb]:bg-blue-600 
-          [&::-moz-range-thumb]:cursor-pointer 
-          [&::-moz-range-thumb]:border-none"
-      />
-    </div>
+  const renderControls = (definition: FilterDefinition) => (
+    <FilterParamControls
+      key={definition.id}
+      definition={definition}
+      params={getFilterParams(filters, definition)}
+      onChange={(changes) => handleFilterChange(definition, changes)}
+    />
   );
 
-  const renderPresetFilter = (config: PresetFilterConfig) => (
-    <div key={config.key} className="space-y-3">
+  const renderPresetFilter = (definition: FilterDefinition) => (
+    <div key={definition.id} className="space-y-3">
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-3">
-          <span className="text-lg">{config.emoji}</span>
+          <span className="text-lg">{definition.icon}</span>
           <div className="flex-1">
             <label className="text-sm font-medium text-gray-700">
-              {config.label}
+              {definition.label}
             </label>
-            <p className="text-xs text-gray-500">{config.description}</p>
+            <p className="text-xs text-gray-500">{definition.description}</p>
           </div>
         </div>
         <div className="flex items-center space-x-2">
           <button
-            onClick={() => applyPreset(config.key)}
+            onClick={() => onChange(applyFilmLook(filters, definition))}
             className={`
               px-3 py-1 text-xs font-medium rounded-lg transition-colors
-              ${isPresetActive(config.key)
+              ${isPresetActive(definition)
                 ? 'bg-purple-600 text-white'
                 : 'bg-gray-100 text-gray-700 hover:bg-purple-100'
               }
             `}
           >
-            {isPresetActive(config.key) ? 'Applied' : 'Apply'}
+            {isPresetActive(definition) ? 'Applied' : 'Apply'}
           </button>
           <span className="text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded text-center min-w-[50px]">
-            {filters[config.key]}%
+            {getAmount(definition)}%
           </span>
         </div>
       </div>
@@ -191,8 +88,8 @@ const FilterEditor: React.FC<FilterEditorProps> = ({ filters, onChange }) => {
         min={0}
         max={100}
         step={1}
-        value={filters[config.key]}
-        onChange={(e) => handleFilterChange(config.key, Number(e.target.value))}
+        value={getAmount(definition)}
+        onChange={(e) => handleFilterChange(definition, { amount: Number(e.target.value) })}
         className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer 
           [&::-webkit-slider-thumb]:appearance-none 
           [&::-webkit-slider-thumb]:h-4 
@@ -255,7 +152,7 @@ const FilterEditor: React.FC<FilterEditorProps> = ({ filters, onChange }) => {
             key={tab.id}
             onClick={() => setActiveTab(tab.id)}
             className={`
-              flex-1 flex items-center justify-center space-x-2 py-3 px-4 text-sm font-medium transition-colors
+              flex-1 flex items-center justify-center space-x-1 py-3 px-2 text-sm font-medium transition-colors
               ${activeTab === tab.id
                 ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
                 : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'
@@ -273,14 +170,21 @@ const FilterEditor: React.FC<FilterEditorProps> = ({ filters, onChange }) => {
         {activeTab === 'basic' && (
           <div className="space-y-6">
             <p className="text-sm text-gray-600 mb-4">Fundamental adjustments for your image</p>
-            {basicFilters.map(renderSlider)}
+            {basicFilters.map(renderControls)}
           </div>
         )}
 
         {activeTab === 'advanced' && (
           <div className="space-y-6">
             <p className="text-sm text-gray-600 mb-4">Professional-grade image enhancement</p>
-            {advancedFilters.map(renderSlider)}
+            {advancedFilters.map(renderControls)}
+          </div>
+        )}
+
+        {activeTab === 'tone' && (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-600 mb-4">Precise tonal and color correction</p>
+            {toneFilters.map(renderControls)}
           </div>
         )}
 
@@ -290,37 +194,47 @@ const FilterEditor: React.FC<FilterEditorProps> = ({ filters, onChange }) => {
               <p className="text-sm text-gray-600">Instagram & film-inspired effects</p>
               <p className="text-xs text-blue-600">💡 Click "Apply" for instant effect, or use sliders for custom intensity</p>
             </div>
+
+            {looks && onLooksChange && (
+              <LookLibrary
+                looks={looks}
+                filters={filters}
+                previewImage={previewImage}
+                onApply={onChange}
+                onLooksChange={onLooksChange}
+              />
+            )}
             
             {/* Mobile: Horizontal Quick Apply Buttons */}
             <div className="lg:hidden">
               <h4 className="text-sm font-medium text-gray-700 mb-3">Quick Apply</h4>
               <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
-                {presetFilters.map((config) => (
+                {presetFilters.map((definition) => (
                   <button
-                    key={`quick-${config.key}`}
-                    onClick={() => applyPreset(config.key)}
+                    key={`quick-${definition.id}`}
+                    onClick={() => onChange(applyFilmLook(filters, definition))}
                     className={`
                       flex-shrink-0 flex flex-col items-center p-3 rounded-lg border-2 transition-all duration-200 w-20
-                      ${isPresetActive(config.key)
+                      ${isPresetActive(definition)
                         ? 'border-purple-500 bg-purple-50 shadow-md'
                         : 'border-gray-200 bg-white hover:border-purple-300 hover:shadow-sm'
                       }
                     `}
                   >
-                    <span className="text-lg mb-1">{config.emoji}</span>
+                    <span className="text-lg mb-1">{definition.icon}</span>
                     <span className="text-xs font-medium text-gray-900 text-center leading-tight">
-                      {config.label}
+                      {definition.label}
                     </span>
                   </button>
                 ))}
               </div>
               
               {/* Fine-tuning for active preset on mobile */}
-              {presetFilters.some(config => isPresetActive(config.key)) && (
+              {presetFilters.some(isPresetActive) && (
                 <div className="mt-4">
                   <h4 className="text-sm font-medium text-gray-700 mb-3">Fine-tune Active Filter</h4>
                   {presetFilters
-                    .filter(config => isPresetActive(config.key))
+                    .filter(isPresetActive)
                     .map(renderPresetFilter)}
                 </div>
               )}
@@ -330,6 +244,15 @@ const FilterEditor: React.FC<FilterEditorProps> = ({ filters, onChange }) => {
             <div className="hidden lg:block">
               {presetFilters.map(renderPresetFilter)}
             </div>
+
+            <ColorLutLibrary filters={filters} onChange={onChange} />
+          </div>
+        )}
+
+        {activeTab === 'layers' && (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-600 mb-4">Reorder, hide and delete your adjustments</p>
+            <LayerStack filters={filters} onChange={onChange} onEditMask={onEditMask} />
           </div>
         )}
       </div>
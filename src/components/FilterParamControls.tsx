@@ -0,0 +1,117 @@
+import React from 'react';
+import { FilterParams, HslAdjustments, LevelsAdjustment, ToneCurves } from '../types';
+import { FilterDefinition, FilterParam } from '../utils/filterRegistry';
+import { useColorLuts } from '../hooks/useColorLuts';
+import CurvesEditor from './CurvesEditor';
+import LevelsEditor from './LevelsEditor';
+import HslMixer from './HslMixer';
+
+interface FilterParamControlsProps {
+  definition: FilterDefinition;
+  params: FilterParams;
+  onChange: (changes: FilterParams) => void;
+}
+
+// The editor for each of a filter's settings, picked by the kind of setting the registry declares
+const FilterParamControls: React.FC<FilterParamControlsProps> = ({ definition, params, onChange }) => {
+  const luts = useColorLuts();
+
+  const renderParam = (param: FilterParam) => {
+    switch (param.kind) {
+      case 'slider':
+        return (
+          <div key={param.key} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-gray-700">
+                {param.label}
+              </label>
+              <span className="text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded text-center min-w-[60px]">
+                {params[param.key] as number}{param.unit}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={param.min}
+              max={param.max}
+              step={param.step}
+              value={params[param.key] as number}
+              onChange={(e) => onChange({ [param.key]: Number(e.target.value) })}
+              onDoubleClick={() => onChange({ [param.key]: param.neutral ?? param.default })}
+              title="Double-click to reset"
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer
+                [&::-webkit-slider-thumb]:appearance-none
+                [&::-webkit-slider-thumb]:h-4
+                [&::-webkit-slider-thumb]:w-4
+                [&::-webkit-slider-thumb]:rounded-full
+                [&::-webkit-slider-thumb]:bg-blue-600
+                [&::-webkit-slider-thumb]:cursor-pointer
+                [&::-webkit-slider-thumb]:shadow-sm
+                [&::-webkit-slider-thumb]:hover:bg-blue-700
+                [&::-webkit-slider-thumb]:transition-colors
+                [&::-moz-range-thumb]:h-4
+                [&::-moz-range-thumb]:w-4
+                [&::-moz-range-thumb]:rounded-full
+                [&::-moz-range-thumb]:bg-blue-600
+                [&::-moz-range-thumb]:cursor-pointer
+                [&::-moz-range-thumb]:border-none"
+            />
+          </div>
+        );
+      case 'curves':
+        return (
+          <CurvesEditor
+            key={param.key}
+            curves={params[param.key] as ToneCurves}
+            onChange={(curves) => onChange({ [param.key]: curves })}
+          />
+        );
+      case 'levels':
+        return (
+          <LevelsEditor
+            key={param.key}
+            levels={params[param.key] as LevelsAdjustment}
+            onChange={(levels) => onChange({ [param.key]: levels })}
+          />
+        );
+      case 'hsl':
+        return (
+          <HslMixer
+            key={param.key}
+            hsl={params[param.key] as HslAdjustments}
+            onChange={(hsl) => onChange({ [param.key]: hsl })}
+          />
+        );
+      case 'lut': {
+        const lutId = params[param.key] as string | null;
+        const isMissing = lutId !== null && !luts.some(lut => lut.id === lutId);
+        return (
+          <div key={param.key} className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">{param.label}</label>
+            <select
+              value={lutId ?? ''}
+              onChange={(e) => onChange({ [param.key]: e.target.value || null })}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              <option value="">None</option>
+              {luts.map(lut => (
+                <option key={lut.id} value={lut.id}>{lut.name}</option>
+              ))}
+              {isMissing && <option value={lutId}>Missing LUT</option>}
+            </select>
+            {luts.length === 0 && (
+              <p className="text-xs text-gray-500">Import LUTs in the Presets tab.</p>
+            )}
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {definition.params.map(renderParam)}
+    </div>
+  );
+};
+
+export default FilterParamControls;
@@ -1,23 +1,80 @@
-import React from 'react';
-import { FormatPreset, formatPresets } from '../types';
+import React, { useRef, useState } from 'react';
+import { BackgroundOptions, FormatPreset, FitMode, formatPresets } from '../types';
+import { mergeCustomPresets, parseCustomPresets, serializeCustomPresets, upsertCustomPreset } from '../utils/customPresets';
+import { downloadBlob } from '../utils/exporter';
+import PresetEditor from './PresetEditor';
 
 interface FormatPresetSelectorProps {
   selectedPreset: FormatPreset;
+  fitMode: FitMode;
+  customPresets: FormatPreset[];
+  backgroundColor: string; // current background, saved as a preset default on request
+  background: BackgroundOptions;
   onChange: (preset: FormatPreset) => void;
+  onFitModeChange: (fitMode: FitMode) => void;
+  onCustomPresetsChange: (presets: FormatPreset[]) => void;
 }
 
 const FormatPresetSelector: React.FC<FormatPresetSelectorProps> = ({
   selectedPreset,
+  fitMode,
+  customPresets,
+  backgroundColor,
+  background,
   onChange,
+  onFitModeChange,
+  onCustomPresetsChange,
 }) => {
+  // undefined when closed, null when creating a new preset
+  const [editingPreset, setEditingPreset] = useState<FormatPreset | null | undefined>(undefined);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const allPresets = [...formatPresets, ...customPresets];
+
+  const fitModes: { id: FitMode; label: string; description: string }[] = [
+    { id: 'contain', label: 'Fit', description: 'Letterbox the whole photo' },
+    { id: 'cover', label: 'Fill', description: 'Scale up and crop the overflow' },
+    { id: 'stretch', label: 'Stretch', description: 'Distort to the exact size' },
+    { id: 'none', label: 'Native', description: 'Keep original pixel scale' },
+  ];
+
   // Group presets by platform for desktop
-  const groupedPresets = formatPresets.reduce((acc, preset) => {
+  const groupedPresets = allPresets.reduce((acc, preset) => {
     const platform = preset.platform || 'General';
     if (!acc[platform]) acc[platform] = [];
     acc[platform].push(preset);
     return acc;
   }, {} as Record<string, FormatPreset[]>);
 
+  const handleSave = (preset: FormatPreset) => {
+    onCustomPresetsChange(upsertCustomPreset(customPresets, preset));
+    setEditingPreset(undefined);
+  };
+
+  const handleDelete = (preset: FormatPreset) => {
+    if (!confirm(`Delete the "${preset.name}" preset?`)) return;
+    onCustomPresetsChange(customPresets.filter(p => p.id !== preset.id));
+  };
+
+  const handleExport = () => {
+    const json = serializeCustomPresets(customPresets);
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'photosquare_presets.json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseCustomPresets(await file.text());
+      onCustomPresetsChange(mergeCustomPresets(customPresets, imported));
+    } catch (error) {
+      console.error('Error importing presets:', error);
+      alert(`Failed to import presets. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-sm border">
       <div className="p-4 border-b">
@@ -28,7 +85,7 @@ const FormatPresetSelector: React.FC<FormatPresetSelectorProps> = ({
       {/* Mobile: Horizontal Scroll */}
       <div className="lg:hidden p-4">
         <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide">
-          {formatPresets.map((preset) => (
+          {allPresets.map((preset) => (
             <button
               key={preset.id}
               onClick={() => onChange(preset)}
@@ -72,35 +129,122 @@ const FormatPresetSelector: React.FC<FormatPresetSelectorProps> = ({
               <h4 className="text-sm font-medium text-gray-700 mb-2">{platform}</h4>
               <div className="grid grid-cols-2 gap-2">
                 {presets.map((preset) => (
-                  <button
-                    key={preset.id}
-                    onClick={() => onChange(preset)}
-                    className={`
-                      p-3 rounded-lg border text-left transition-all duration-200
-                      ${selectedPreset.id === preset.id
-                        ? 'border-blue-500 bg-blue-50 shadow-sm'
-                        : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                      }
-                    `}
-                  >
-                    <div className="flex items-center space-x-3">
-                      <span className="text-lg">{preset.icon}</span>
-                      <div className="flex-1 min-w-0">
-                        <div className="text-sm font-medium text-gray-900">
-                          {preset.name}
-                        </div>
-                        <div className="text-xs text-gray-500 truncate">
-                          {preset.description}
+                  <div key={preset.id} className="relative group">
+                    <button
+                      onClick={() => onChange(preset)}
+                      className={`
+                        w-full h-full p-3 rounded-lg border text-left transition-all duration-200
+                        ${selectedPreset.id === preset.id
+                          ? 'border-blue-500 bg-blue-50 shadow-sm'
+                          : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                        }
+                      `}
+                    >
+                      <div className="flex items-center space-x-3">
+                        <span className="text-lg">{preset.icon}</span>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-medium text-gray-900 truncate">
+                            {preset.name}
+                          </div>
+                          <div className="text-xs text-gray-500 truncate">
+                            {preset.description}
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  </button>
+                    </button>
+                    {preset.custom && (
+                      <div className="absolute top-1 right-1 hidden group-hover:flex space-x-1">
+                        <button
+                          onClick={() => setEditingPreset(preset)}
+                          className="w-5 h-5 bg-white border border-gray-200 rounded text-xs text-gray-600 hover:text-blue-600"
+                          title="Edit preset"
+                        >
+                          ✎
+                        </button>
+                        <button
+                          onClick={() => handleDelete(preset)}
+                          className="w-5 h-5 bg-white border border-gray-200 rounded text-xs text-gray-600 hover:text-red-600"
+                          title="Delete preset"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    )}
+                  </div>
                 ))}
               </div>
             </div>
           ))}
         </div>
       </div>
+
+      {/* Custom Presets */}
+      <div className="p-4 border-t flex items-center gap-2">
+        <button
+          onClick={() => setEditingPreset(null)}
+          className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+        >
+          + New Preset
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          title="Import presets from a JSON file"
+        >
+          Import
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={customPresets.length === 0}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Export your presets as JSON to share them"
+        >
+          Export
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {/* Fit Mode */}
+      {selectedPreset.id !== 'original' && (
+        <div className="p-4 border-t">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Fit Mode</h4>
+          <div className="grid grid-cols-4 lg:grid-cols-2 gap-2">
+            {fitModes.map((mode) => (
+              <button
+                key={mode.id}
+                onClick={() => onFitModeChange(mode.id)}
+                title={mode.description}
+                className={`
+                  p-2 rounded-lg border text-left transition-all duration-200
+                  ${fitMode === mode.id
+                    ? 'border-blue-500 bg-blue-50 shadow-sm'
+                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                  }
+                `}
+              >
+                <div className="text-sm font-medium text-gray-900">{mode.label}</div>
+                <div className="hidden lg:block text-xs text-gray-500 truncate">{mode.description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {editingPreset !== undefined && (
+        <PresetEditor
+          preset={editingPreset ?? undefined}
+          currentBackgroundColor={backgroundColor}
+          currentBackground={background}
+          onSave={handleSave}
+          onClose={() => setEditingPreset(undefined)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { PhotoRect } from '../types';
+import { computeHistogram } from '../utils/histogram';
+
+interface HistogramPanelProps {
+  canvas?: HTMLCanvasElement; // the processed preview to measure
+  photoRect?: PhotoRect; // the photo's part of it, leaving out the padding
+  showClipping: boolean;
+  onShowClippingChange: (showClipping: boolean) => void;
+}
+
+const HEIGHT = 100;
+// Flag clipping once it's more than a speck
+const CLIPPING_WARNING = 0.005;
+
+// Closed area path over the 256 bins, scaled to the tallest bin between the extremes
+const toPath = (bins: Uint32Array, peak: number) => {
+  let path = `M0,${HEIGHT}`;
+  bins.forEach((count, i) => {
+    path += ` L${i},${HEIGHT - Math.min(HEIGHT, (count / peak) * HEIGHT)}`;
+  });
+  return `${path} L255,${HEIGHT} Z`;
+};
+
+const channels = [
+  { key: 'red', color: '#ef4444' },
+  { key: 'green', color: '#22c55e' },
+  { key: 'blue', color: '#3b82f6' },
+] as const;
+
+const HistogramPanel: React.FC<HistogramPanelProps> = ({ canvas, photoRect, showClipping, onShowClippingChange }) => {
+  const histogram = useMemo(() => (canvas ? computeHistogram(canvas, photoRect) : null), [canvas, photoRect]);
+
+  const paths = useMemo(() => {
+    if (!histogram || histogram.samples === 0) return null;
+    // Clipped ends would dwarf everything else, so they don't set the scale
+    let peak = 1;
+    [histogram.red, histogram.green, histogram.blue, histogram.luminance].forEach((bins) => {
+      for (let i = 1; i < 255; i++) peak = Math.max(peak, bins[i]);
+    });
+    return {
+      luminance: toPath(histogram.luminance, peak),
+      red: toPath(histogram.red, peak),
+      green: toPath(histogram.green, peak),
+      blue: toPath(histogram.blue, peak),
+    };
+  }, [histogram]);
+
+  const formatShare = (share: number) => `${share < 0.001 && share > 0 ? '<0.1' : (share * 100).toFixed(1)}%`;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative bg-gray-900 rounded-lg overflow-hidden">
+        <svg viewBox={`0 0 255 ${HEIGHT}`} preserveAspectRatio="none" className="block w-full h-20">
+          {paths && (
+            <>
+              <path d={paths.luminance} fill="#9ca3af" fillOpacity={0.35} />
+              {channels.map(({ key, color }) => (
+                <path key={key} d={paths[key]} fill={color} fillOpacity={0.55} style={{ mixBlendMode: 'screen' }} />
+              ))}
+            </>
+          )}
+        </svg>
+        {!paths && (
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-400">
+            Waiting for preview…
+          </div>
+        )}
+      </div>
+
+      {histogram && (
+        <div className="flex items-center justify-between text-xs">
+          <span className={histogram.clippedShadows > CLIPPING_WARNING ? 'text-blue-700 font-medium' : 'text-gray-500'}>
+            Shadows clipped {formatShare(histogram.clippedShadows)}
+          </span>
+          <span className={histogram.clippedHighlights > CLIPPING_WARNING ? 'text-red-600 font-medium' : 'text-gray-500'}>
+            Highlights clipped {formatShare(histogram.clippedHighlights)}
+          </span>
+        </div>
+      )}
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={showClipping}
+          onChange={(e) => onShowClippingChange(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600"
+        />
+        <span>Show clipping on preview</span>
+      </label>
+    </div>
+  );
+};
+
+export default HistogramPanel;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { HslAdjustment, HslAdjustments, defaultHsl } from '../types';
+import { hslRanges, isDefaultHsl } from '../utils/hslMixer';
+
+interface HslMixerProps {
+  hsl: HslAdjustments;
+  onChange: (hsl: HslAdjustments) => void;
+}
+
+type HslProperty = keyof HslAdjustment;
+
+const properties: { id: HslProperty; label: string }[] = [
+  { id: 'hue', label: 'Hue' },
+  { id: 'saturation', label: 'Saturation' },
+  { id: 'luminance', label: 'Luminance' },
+];
+
+// Hue, saturation or luminance for each of the eight color ranges, one property at a time
+const HslMixer: React.FC<HslMixerProps> = ({ hsl, onChange }) => {
+  const [property, setProperty] = useState<HslProperty>('saturation');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700">HSL Mixer</label>
+        <button
+          onClick={() => onChange({ ...defaultHsl })}
+          disabled={isDefaultHsl(hsl)}
+          className="text-xs text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {properties.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setProperty(id)}
+            className={`py-1 rounded text-xs font-medium transition-colors ${
+              property === id ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {hslRanges.map((range) => (
+        <div key={range.id} className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="flex items-center space-x-2 text-xs text-gray-600">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: range.color }} />
+              <span>{range.label}</span>
+            </span>
+            <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded min-w-[40px] text-center">
+              {hsl[range.id][property]}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={-100}
+            max={100}
+            step={1}
+            value={hsl[range.id][property]}
+            onChange={(e) => onChange({
+              ...hsl,
+              [range.id]: { ...hsl[range.id], [property]: Number(e.target.value) },
+            })}
+            onDoubleClick={() => onChange({ ...hsl, [range.id]: { ...hsl[range.id], [property]: 0 } })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer
+              [&::-webkit-slider-thumb]:appearance-none
+              [&::-webkit-slider-thumb]:h-4
+              [&::-webkit-slider-thumb]:w-4
+              [&::-webkit-slider-thumb]:rounded-full
+              [&::-webkit-slider-thumb]:bg-white
+              [&::-webkit-slider-thumb]:border-2
+              [&::-webkit-slider-thumb]:border-gray-500
+              [&::-webkit-slider-thumb]:cursor-pointer
+              [&::-moz-range-thumb]:h-4
+              [&::-moz-range-thumb]:w-4
+              [&::-moz-range-thumb]:rounded-full
+              [&::-moz-range-thumb]:bg-white
+              [&::-moz-range-thumb]:cursor-pointer"
+            title="Double-click to reset"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HslMixer;
@@ -1,5 +1,5 @@
 import React, { useCallback, useState } from 'react';
-import { isHeicFile } from '../utils/imageProcessor';
+import { isHeicFile } from '../utils/fileLoader';
 
 interface ImageUploaderProps {
   onImagesSelected: (files: File[]) => void;
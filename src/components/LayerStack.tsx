@@ -0,0 +1,221 @@
+import React, { useRef, useState } from 'react';
+import { AdjustmentLayer, FilterParams, ImageFilters } from '../types';
+import { FilterCategory, createLayer, getFilterDefinition, getFiltersByCategory, isLayerActive } from '../utils/filterRegistry';
+import FilterParamControls from './FilterParamControls';
+import MaskControls from './MaskControls';
+
+interface LayerStackProps {
+  filters: ImageFilters;
+  onChange: (filters: ImageFilters) => void;
+  onEditMask?: (layerId: string) => void; // show the layer's mask on the preview to drag it there
+}
+
+const categoryLabels: Record<FilterCategory, string> = {
+  basic: 'Basic',
+  advanced: 'Advanced',
+  tone: 'Tone',
+  presets: 'Presets',
+  lut: 'Color LUTs',
+};
+
+// Short reading of a layer's main slider, e.g. "70%"
+const summarize = (layer: AdjustmentLayer): string => {
+  const param = getFilterDefinition(layer.filter)?.params.find(p => p.kind === 'slider');
+  return param?.kind === 'slider' ? `${layer.params[param.key]}${param.unit}` : '';
+};
+
+const EyeIcon: React.FC<{ open: boolean }> = ({ open }) => (
+  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    {open ? (
+      <>
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+      </>
+    ) : (
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+    )}
+  </svg>
+);
+
+/**
+ * The image's adjustment layers, top of the list applied last.
+ * Drag rows (or use the arrows) to reorder, toggle the eye to hide a layer, click a layer to edit it.
+ * A layer can be masked to a radial or linear gradient to adjust only part of the photo.
+ */
+const LayerStack: React.FC<LayerStackProps> = ({ filters, onChange, onEditMask }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const draggedId = useRef<string | null>(null);
+  const { layers } = filters;
+
+  const setLayers = (next: AdjustmentLayer[]) => onChange({ ...filters, layers: next });
+
+  const updateLayer = (id: string, changes: Partial<AdjustmentLayer>) =>
+    setLayers(layers.map(layer => (layer.id === id ? { ...layer, ...changes } : layer)));
+
+  const updateParams = (layer: AdjustmentLayer, changes: FilterParams) =>
+    updateLayer(layer.id, { params: { ...layer.params, ...changes } });
+
+  // `index` is the position in application order, 0 applied first
+  const moveLayer = (id: string, index: number) => {
+    const layer = layers.find(l => l.id === id);
+    if (!layer) return;
+    const rest = layers.filter(l => l.id !== id);
+    const target = Math.max(0, Math.min(rest.length, index));
+    setLayers([...rest.slice(0, target), layer, ...rest.slice(target)]);
+  };
+
+  const addLayer = (filterId: string) => {
+    const definition = getFilterDefinition(filterId);
+    if (!definition) return;
+    const layer = createLayer(definition);
+    setLayers([...layers, layer]);
+    setExpandedId(layer.id);
+  };
+
+  const deleteLayer = (id: string) => {
+    setLayers(layers.filter(layer => layer.id !== id));
+    if (expandedId === id) setExpandedId(null);
+  };
+
+  const handleDrop = (target: AdjustmentLayer) => {
+    const id = draggedId.current;
+    draggedId.current = null;
+    setDropTargetId(null);
+    if (!id || id === target.id) return;
+    moveLayer(id, layers.findIndex(layer => layer.id === target.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700">Adjustment Layers</h4>
+        <select
+          value=""
+          onChange={(e) => addLayer(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-lg text-xs font-medium text-gray-700 bg-white"
+          aria-label="Add an adjustment layer"
+        >
+          <option value="" disabled>+ Add layer</option>
+          {(Object.keys(categoryLabels) as FilterCategory[]).map(category => (
+            <optgroup key={category} label={categoryLabels[category]}>
+              {getFiltersByCategory(category).map(definition => (
+                <option key={definition.id} value={definition.id}>{definition.label}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </div>
+
+      {layers.length === 0 ? (
+        <p className="text-xs text-gray-500">No adjustments yet. Move any slider or add a layer to start.</p>
+      ) : (
+        <p className="text-xs text-gray-500">Applied from the bottom up. Drag to reorder.</p>
+      )}
+
+      <ul className="space-y-1">
+        {[...layers].reverse().map((layer) => {
+          const definition = getFilterDefinition(layer.filter);
+          if (!definition) return null;
+          const index = layers.indexOf(layer);
+          const isExpanded = expandedId === layer.id;
+
+          return (
+            <li
+              key={layer.id}
+              onDragOver={(e) => {
+                if (!draggedId.current) return;
+                e.preventDefault();
+                setDropTargetId(layer.id);
+              }}
+              onDragLeave={() => setDropTargetId(id => (id === layer.id ? null : id))}
+              onDrop={() => handleDrop(layer)}
+              onDragEnd={() => {
+                draggedId.current = null;
+                setDropTargetId(null);
+              }}
+              className={`rounded-lg border bg-white transition-colors ${
+                dropTargetId === layer.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200'
+              }`}
+            >
+              {/* Only the header drags, so the sliders below keep working */}
+              <div
+                draggable
+                onDragStart={(e) => {
+                  draggedId.current = layer.id;
+                  e.dataTransfer.effectAllowed = 'move';
+                }}
+                className="flex items-center space-x-2 px-2 py-1.5"
+              >
+                <span className="cursor-grab text-gray-400 select-none" aria-hidden="true">⋮⋮</span>
+                <button
+                  onClick={() => updateLayer(layer.id, { visible: !layer.visible })}
+                  className={`p-1 rounded ${layer.visible ? 'text-gray-600 hover:text-gray-800' : 'text-gray-300 hover:text-gray-500'}`}
+                  title={layer.visible ? 'Hide layer' : 'Show layer'}
+                  aria-pressed={layer.visible}
+                >
+                  <EyeIcon open={layer.visible} />
+                </button>
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : layer.id)}
+                  className={`flex-1 min-w-0 flex items-center space-x-2 text-left ${isLayerActive(layer) ? '' : 'opacity-50'}`}
+                  aria-expanded={isExpanded}
+                >
+                  <span>{definition.icon}</span>
+                  <span className="text-sm font-medium text-gray-800 truncate">{definition.label}</span>
+                  <span className="text-xs text-gray-500">{summarize(layer)}</span>
+                  {layer.mask && (
+                    <span className="text-xs text-teal-600" title={`${layer.mask.shape === 'radial' ? 'Radial' : 'Linear'} mask`}>◐</span>
+                  )}
+                </button>
+                <div className="flex items-center text-xs text-gray-500">
+                  <button
+                    onClick={() => moveLayer(layer.id, index + 1)}
+                    disabled={index === layers.length - 1}
+                    className="px-1 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => moveLayer(layer.id, index - 1)}
+                    disabled={index === 0}
+                    className="px-1 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => deleteLayer(layer.id)}
+                    className="px-1 hover:text-red-600"
+                    title="Delete layer"
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+              {isExpanded && (
+                <div className="px-3 pb-3 pt-1 border-t border-gray-100">
+                  <FilterParamControls
+                    definition={definition}
+                    params={layer.params}
+                    onChange={(changes) => updateParams(layer, changes)}
+                  />
+                  <div className="mt-4 pt-3 border-t border-gray-100">
+                    <MaskControls
+                      mask={layer.mask}
+                      onChange={(mask) => updateLayer(layer.id, { mask })}
+                      onEditOnPreview={onEditMask && (() => onEditMask(layer.id))}
+                    />
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default LayerStack;
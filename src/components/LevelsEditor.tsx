@@ -0,0 +1,75 @@
+import React from 'react';
+import { LevelsAdjustment, defaultLevels } from '../types';
+import { MAX_GAMMA, MIN_GAMMA, isDefaultLevels } from '../utils/toneCurves';
+
+interface LevelsEditorProps {
+  levels: LevelsAdjustment;
+  onChange: (levels: LevelsAdjustment) => void;
+}
+
+const sliderClassName = `w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer
+  [&::-webkit-slider-thumb]:appearance-none
+  [&::-webkit-slider-thumb]:h-4
+  [&::-webkit-slider-thumb]:w-4
+  [&::-webkit-slider-thumb]:rounded-full
+  [&::-webkit-slider-thumb]:bg-blue-600
+  [&::-webkit-slider-thumb]:cursor-pointer
+  [&::-webkit-slider-thumb]:shadow-sm
+  [&::-moz-range-thumb]:h-4
+  [&::-moz-range-thumb]:w-4
+  [&::-moz-range-thumb]:rounded-full
+  [&::-moz-range-thumb]:bg-blue-600
+  [&::-moz-range-thumb]:cursor-pointer
+  [&::-moz-range-thumb]:border-none`;
+
+// Input levels: black point, white point and midtone gamma
+const LevelsEditor: React.FC<LevelsEditorProps> = ({ levels, onChange }) => {
+  const updateLevels = (changes: Partial<LevelsAdjustment>) => {
+    const next = { ...levels, ...changes };
+    // Keep at least one level between the black and white points
+    if (changes.black !== undefined) next.black = Math.min(next.black, next.white - 1);
+    if (changes.white !== undefined) next.white = Math.max(next.white, next.black + 1);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700">Levels</label>
+        <button
+          onClick={() => onChange({ ...defaultLevels })}
+          disabled={isDefaultLevels(levels)}
+          className="text-xs text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Reset
+        </button>
+      </div>
+
+      {([
+        { key: 'black', label: 'Black point', min: 0, max: 254, step: 1 },
+        { key: 'gamma', label: 'Midtones (gamma)', min: MIN_GAMMA, max: 3, step: 0.01 },
+        { key: 'white', label: 'White point', min: 1, max: 255, step: 1 },
+      ] as const).map((config) => (
+        <div key={config.key} className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-600">{config.label}</span>
+            <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded min-w-[48px] text-center">
+              {config.key === 'gamma' ? levels.gamma.toFixed(2) : levels[config.key]}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={config.min}
+            max={config.key === 'gamma' ? Math.max(3, Math.min(MAX_GAMMA, levels.gamma)) : config.max}
+            step={config.step}
+            value={levels[config.key]}
+            onChange={(e) => updateLevels({ [config.key]: Number(e.target.value) })}
+            className={sliderClassName}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LevelsEditor;
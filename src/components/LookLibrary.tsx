@@ -0,0 +1,115 @@
+import React, { useRef } from 'react';
+import { FilterLook, ImageFilters, ProcessedImage } from '../types';
+import { createLookId, isLookApplied, mergeFilterLooks, parseFilterLooks, serializeFilterLooks } from '../utils/filterLooks';
+import { downloadBlob } from '../utils/exporter';
+import { useLookThumbnails } from '../hooks/useLookThumbnails';
+
+interface LookLibraryProps {
+  looks: FilterLook[];
+  filters: ImageFilters;
+  previewImage?: ProcessedImage | null; // thumbnails show each look on this photo
+  onApply: (filters: ImageFilters) => void;
+  onLooksChange: (looks: FilterLook[]) => void;
+}
+
+const LookLibrary: React.FC<LookLibraryProps> = ({ looks, filters, previewImage, onApply, onLooksChange }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const thumbnails = useLookThumbnails(previewImage, looks);
+
+  const saveLook = () => {
+    const name = prompt('Name this look', `Look ${looks.length + 1}`)?.trim();
+    if (!name) return;
+    onLooksChange([...looks, { id: createLookId(), name, filters: { ...filters } }]);
+  };
+
+  const deleteLook = (look: FilterLook) => {
+    if (!confirm(`Delete the "${look.name}" look?`)) return;
+    onLooksChange(looks.filter(l => l.id !== look.id));
+  };
+
+  const handleExport = () => {
+    const json = serializeFilterLooks(looks);
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'photosquare_looks.json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onLooksChange(mergeFilterLooks(looks, parseFilterLooks(await file.text())));
+    } catch (error) {
+      console.error('Error importing looks:', error);
+      alert(`Failed to import looks. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700">My Looks</h4>
+        <div className="flex items-center space-x-2 text-xs font-medium">
+          <button onClick={() => importInputRef.current?.click()} className="text-gray-600 hover:text-gray-800">
+            Import
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={looks.length === 0}
+            className="text-gray-600 hover:text-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {looks.map((look) => (
+          <div key={look.id} className="relative group">
+            <button
+              onClick={() => onApply({ ...look.filters })}
+              className={`
+                w-full rounded-lg border-2 overflow-hidden transition-all duration-200
+                ${isLookApplied(look, filters)
+                  ? 'border-purple-500 shadow-md'
+                  : 'border-gray-200 hover:border-purple-300'
+                }
+              `}
+            >
+              <div className="aspect-square bg-gray-100">
+                {thumbnails[look.id] && (
+                  <img src={thumbnails[look.id]} alt={look.name} className="w-full h-full object-cover" />
+                )}
+              </div>
+              <div className="px-1 py-1 text-xs font-medium text-gray-900 truncate">{look.name}</div>
+            </button>
+            <button
+              onClick={() => deleteLook(look)}
+              className="absolute top-1 right-1 hidden group-hover:block w-5 h-5 bg-white bg-opacity-90 rounded text-xs text-gray-600 hover:text-red-600"
+              title="Delete look"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={saveLook}
+          className="aspect-square rounded-lg border-2 border-dashed border-gray-300 text-gray-500 hover:border-purple-300 hover:text-purple-600 flex flex-col items-center justify-center transition-colors"
+          title="Save the current filters as a look"
+        >
+          <span className="text-lg">+</span>
+          <span className="text-xs font-medium">Save current</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LookLibrary;
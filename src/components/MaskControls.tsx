@@ -0,0 +1,131 @@
+import React from 'react';
+import { LayerMask, MaskShape } from '../types';
+import { MAX_MASK_RADIUS, MIN_MASK_RADIUS, createLayerMask } from '../utils/layerMasks';
+
+interface MaskControlsProps {
+  mask?: LayerMask;
+  onChange: (mask: LayerMask | undefined) => void;
+  onEditOnPreview?: () => void; // drag the mask on the photo instead, where there's a preview to drag it on
+}
+
+const sliderClassName = `w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer
+  [&::-webkit-slider-thumb]:appearance-none
+  [&::-webkit-slider-thumb]:h-4
+  [&::-webkit-slider-thumb]:w-4
+  [&::-webkit-slider-thumb]:rounded-full
+  [&::-webkit-slider-thumb]:bg-teal-600
+  [&::-webkit-slider-thumb]:cursor-pointer
+  [&::-webkit-slider-thumb]:shadow-sm
+  [&::-moz-range-thumb]:h-4
+  [&::-moz-range-thumb]:w-4
+  [&::-moz-range-thumb]:rounded-full
+  [&::-moz-range-thumb]:bg-teal-600
+  [&::-moz-range-thumb]:cursor-pointer
+  [&::-moz-range-thumb]:border-none`;
+
+const shapes: { id: MaskShape | null; label: string }[] = [
+  { id: null, label: 'Whole photo' },
+  { id: 'radial', label: 'Radial' },
+  { id: 'linear', label: 'Linear' },
+];
+
+type MaskSlider = { key: 'feather' | 'angle' | 'radiusX' | 'radiusY' | 'x' | 'y'; label: string; min: number; max: number; step: number };
+
+// Percentages of the frame, angles in degrees
+const getSliders = (shape: MaskShape): MaskSlider[] => [
+  { key: 'feather', label: 'Feather', min: 0, max: 100, step: 1 },
+  ...(shape === 'radial'
+    ? [
+        { key: 'radiusX', label: 'Width', min: MIN_MASK_RADIUS, max: MAX_MASK_RADIUS, step: 0.01 },
+        { key: 'radiusY', label: 'Height', min: MIN_MASK_RADIUS, max: MAX_MASK_RADIUS, step: 0.01 },
+      ] as MaskSlider[]
+    : [{ key: 'radiusY', label: 'Band width', min: MIN_MASK_RADIUS, max: MAX_MASK_RADIUS, step: 0.01 }] as MaskSlider[]),
+  { key: 'angle', label: 'Angle', min: -180, max: 180, step: 1 },
+  { key: 'x', label: 'Across', min: 0, max: 1, step: 0.01 },
+  { key: 'y', label: 'Down', min: 0, max: 1, step: 0.01 },
+];
+
+const formatValue = (key: MaskSlider['key'], value: number) =>
+  key === 'angle' ? `${value}°` : key === 'feather' ? `${value}%` : `${Math.round(value * 100)}%`;
+
+// Limit a layer to a radial or linear gradient, inside or outside it
+const MaskControls: React.FC<MaskControlsProps> = ({ mask, onChange, onEditOnPreview }) => {
+  const update = (changes: Partial<LayerMask>) => mask && onChange({ ...mask, ...changes });
+
+  const setShape = (shape: MaskShape | null) => {
+    if (shape === (mask?.shape ?? null)) return;
+    if (!shape) {
+      onChange(undefined);
+      return;
+    }
+    // Keep where it was placed when switching between shapes
+    const next = createLayerMask(shape);
+    onChange(mask ? { ...next, x: mask.x, y: mask.y, angle: mask.angle, feather: mask.feather, invert: mask.invert } : next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700">Mask</label>
+        {mask && onEditOnPreview && (
+          <button
+            onClick={onEditOnPreview}
+            className="text-xs text-teal-600 hover:text-teal-700 font-medium"
+          >
+            Edit on photo
+          </button>
+        )}
+      </div>
+
+      <div className="flex bg-gray-100 rounded-lg p-0.5">
+        {shapes.map(({ id, label }) => (
+          <button
+            key={label}
+            onClick={() => setShape(id)}
+            className={`flex-1 px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+              (mask?.shape ?? null) === id ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mask && (
+        <>
+          <label className="flex items-center space-x-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={mask.invert}
+              onChange={(e) => update({ invert: e.target.checked })}
+              className="rounded border-gray-300 text-teal-600"
+            />
+            <span>Adjust outside the {mask.shape === 'radial' ? 'ellipse' : 'band'}</span>
+          </label>
+
+          {getSliders(mask.shape).map((slider) => (
+            <div key={slider.key} className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-600">{slider.label}</span>
+                <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded min-w-[48px] text-center">
+                  {formatValue(slider.key, mask[slider.key])}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={mask[slider.key]}
+                onChange={(e) => update({ [slider.key]: Number(e.target.value) })}
+                className={sliderClassName}
+              />
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MaskControls;
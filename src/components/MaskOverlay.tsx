@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LayerMask } from '../types';
+import { MAX_MASK_RADIUS, MIN_MASK_RADIUS } from '../utils/layerMasks';
+
+interface MaskOverlayProps {
+  mask: LayerMask;
+  onChange: (mask: LayerMask) => void;
+  onDone: () => void;
+}
+
+type DragMode = 'draw' | 'move' | 'radiusX' | 'radiusY' | 'rotate';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const toRadius = (pixels: number, unit: number) => round(clamp(pixels / unit, MIN_MASK_RADIUS, MAX_MASK_RADIUS));
+const toDegrees = (x: number, y: number) => Math.round((Math.atan2(y, x) * 180) / Math.PI);
+// Back into -180 to 180 after offsetting an angle
+const wrapAngle = (angle: number) => ((((angle + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Draws a layer's gradient mask over the preview frame. Drag on the photo to draw a new one,
+ * or drag its handles: the centre moves it, the others size and turn it.
+ */
+const MaskOverlay: React.FC<MaskOverlayProps> = ({ mask, onChange, onDone }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const drag = useRef<{ mode: DragMode; startX: number; startY: number; offsetX: number; offsetY: number } | null>(null);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || typeof ResizeObserver === 'undefined') return;
+
+    const measure = () => {
+      const rect = element.getBoundingClientRect();
+      setSize({ width: rect.width, height: rect.height });
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const { width, height } = size;
+  const unit = Math.max(width, height);
+  const centerX = mask.x * width;
+  const centerY = mask.y * height;
+  const radiusX = mask.radiusX * unit;
+  const radiusY = mask.radiusY * unit;
+  const inner = 1 - mask.feather / 100;
+
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: DragMode) => {
+    // The mask owns its pointer, so editing it never repositions the photo
+    e.stopPropagation();
+    if (unit === 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toPoint(e);
+    drag.current = { mode, startX: point.x, startY: point.y, offsetX: point.x - centerX, offsetY: point.y - centerY };
+    if (mode === 'draw') {
+      onChange({ ...mask, x: round(clamp(point.x / width, 0, 1)), y: round(clamp(point.y / height, 0, 1)) });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const current = drag.current;
+    if (!current) return;
+    const point = toPoint(e);
+    const dx = point.x - centerX;
+    const dy = point.y - centerY;
+
+    switch (current.mode) {
+      case 'draw': {
+        const drawnX = point.x - current.startX;
+        const drawnY = point.y - current.startY;
+        if (mask.shape === 'radial') {
+          // Drag out the ellipse's corner
+          onChange({ ...mask, angle: 0, radiusX: toRadius(Math.abs(drawnX), unit), radiusY: toRadius(Math.abs(drawnY), unit) });
+        } else {
+          // The gradient runs the way the pointer was dragged, so the band lies across it
+          onChange({ ...mask, angle: wrapAngle(toDegrees(drawnX, drawnY) - 90), radiusY: toRadius(Math.hypot(drawnX, drawnY), unit) });
+        }
+        break;
+      }
+      case 'move':
+        onChange({
+          ...mask,
+          x: round(clamp((point.x - current.offsetX) / width, 0, 1)),
+          y: round(clamp((point.y - current.offsetY) / height, 0, 1)),
+        });
+        break;
+      case 'radiusX':
+        onChange({ ...mask, angle: toDegrees(dx, dy), radiusX: toRadius(Math.hypot(dx, dy), unit) });
+        break;
+      case 'radiusY': {
+        const radians = (mask.angle * Math.PI) / 180;
+        onChange({ ...mask, radiusY: toRadius(Math.abs(-dx * Math.sin(radians) + dy * Math.cos(radians)), unit) });
+        break;
+      }
+      case 'rotate':
+        onChange({ ...mask, angle: toDegrees(dx, dy) });
+        break;
+    }
+  };
+
+  const renderHandle = (x: number, y: number, mode: DragMode, title: string, cursor: string) => (
+    <circle
+      cx={x}
+      cy={y}
+      r={mode === 'move' ? 8 : 6}
+      fill={mode === 'move' ? 'white' : '#14b8a6'}
+      stroke="white"
+      strokeWidth={2}
+      className="pointer-events-auto"
+      style={{ cursor }}
+      onPointerDown={(e) => startDrag(e, mode)}
+    >
+      <title>{title}</title>
+    </circle>
+  );
+
+  const length = Math.hypot(width, height);
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 cursor-crosshair touch-none"
+      onPointerDown={(e) => startDrag(e, 'draw')}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => { drag.current = null; }}
+      onPointerCancel={() => { drag.current = null; }}
+    >
+      {unit > 0 && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none" style={{ filter: 'drop-shadow(0 0 1px rgba(0, 0, 0, 0.8))' }}>
+          <g transform={`translate(${centerX} ${centerY}) rotate(${mask.angle})`} fill="none" stroke="white">
+            {/* Solid where the adjustment ends, dashed where it's at full strength */}
+            {mask.shape === 'radial' ? (
+              <>
+                <ellipse rx={radiusX} ry={radiusY} strokeWidth={1.5} />
+                {inner > 0 && mask.feather > 0 && (
+                  <ellipse rx={radiusX * inner} ry={radiusY * inner} strokeWidth={1} strokeDasharray="4 4" />
+                )}
+                {renderHandle(radiusX, 0, 'radiusX', 'Drag to resize and turn', 'grab')}
+                {renderHandle(0, radiusY, 'radiusY', 'Drag to resize', 'ns-resize')}
+              </>
+            ) : (
+              <>
+                <line x1={-length} x2={length} y1={0} y2={0} strokeWidth={1} strokeDasharray="1 4" />
+                {[-1, 1].map(side => (
+                  <React.Fragment key={side}>
+                    <line x1={-length} x2={length} y1={side * radiusY} y2={side * radiusY} strokeWidth={1.5} />
+                    {inner > 0 && mask.feather > 0 && (
+                      <line x1={-length} x2={length} y1={side * radiusY * inner} y2={side * radiusY * inner} strokeWidth={1} strokeDasharray="4 4" />
+                    )}
+                  </React.Fragment>
+                ))}
+                {renderHandle(Math.min(width, height) * 0.3, 0, 'rotate', 'Drag to turn', 'grab')}
+                {renderHandle(0, radiusY, 'radiusY', 'Drag to resize', 'ns-resize')}
+              </>
+            )}
+            {renderHandle(0, 0, 'move', 'Drag to move', 'move')}
+          </g>
+        </svg>
+      )}
+
+      <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center space-x-2" onPointerDown={(e) => e.stopPropagation()}>
+        <span className="bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded whitespace-nowrap">
+          {mask.invert ? 'Adjusting outside' : 'Adjusting inside'}
+        </span>
+        <button
+          onClick={onDone}
+          className="bg-teal-600 hover:bg-teal-700 text-white text-xs font-medium px-3 py-1 rounded"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MaskOverlay;
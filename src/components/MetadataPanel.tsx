@@ -0,0 +1,79 @@
+import React from 'react';
+import { ImageMetadata } from '../types';
+
+interface MetadataPanelProps {
+  metadata?: ImageMetadata;
+}
+
+const formatExposureTime = (seconds: number) =>
+  seconds >= 1 ? `${Math.round(seconds * 10) / 10} s` : `1/${Math.round(1 / seconds)} s`;
+
+// EXIF stores "YYYY:MM:DD HH:MM:SS"
+const formatCaptureDate = (value: string) => {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]} ${match[4]}:${match[5]}` : value;
+};
+
+const formatCoordinate = (value: number, positive: string, negative: string) =>
+  `${Math.abs(value).toFixed(5)}° ${value < 0 ? negative : positive}`;
+
+const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata }) => {
+  if (!metadata) {
+    return <p className="text-xs text-gray-500">Reading metadata...</p>;
+  }
+
+  // Orientations 5-8 are stored sideways
+  const swapped = metadata.orientation >= 5;
+  const dimensions = metadata.width && metadata.height
+    ? `${swapped ? metadata.height : metadata.width}×${swapped ? metadata.width : metadata.height} px`
+    : undefined;
+
+  // Most cameras repeat the make at the start of the model
+  const camera = [metadata.make, metadata.model]
+    .filter(Boolean)
+    .join(' ')
+    .replace(/^(\S+) \1\b/i, '$1') || undefined;
+
+  const exposure = [
+    metadata.exposureTime && formatExposureTime(metadata.exposureTime),
+    metadata.fNumber && `f/${Math.round(metadata.fNumber * 10) / 10}`,
+    metadata.focalLength && `${Math.round(metadata.focalLength)} mm`,
+  ].filter(Boolean).join(' · ') || undefined;
+
+  const rows: { label: string; value?: string; warning?: boolean }[] = [
+    { label: 'Dimensions', value: dimensions && (metadata.orientation > 1 ? `${dimensions} (rotated by EXIF)` : dimensions) },
+    { label: 'Camera', value: camera },
+    { label: 'Lens', value: metadata.lens },
+    { label: 'Exposure', value: exposure },
+    { label: 'ISO', value: metadata.iso?.toString() },
+    { label: 'Captured', value: metadata.dateTimeOriginal && formatCaptureDate(metadata.dateTimeOriginal) },
+    {
+      label: 'Location',
+      value: metadata.gps
+        ? `${formatCoordinate(metadata.gps.latitude, 'N', 'S')}, ${formatCoordinate(metadata.gps.longitude, 'E', 'W')}`
+        : 'None',
+      warning: !!metadata.gps,
+    },
+    { label: 'Color profile', value: metadata.colorProfile ?? 'None (sRGB assumed)' },
+    { label: 'Author', value: metadata.artist },
+    { label: 'Copyright', value: metadata.copyright },
+  ];
+
+  return (
+    <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+      {rows.map(({ label, value, warning }) => (
+        <React.Fragment key={label}>
+          <dt className="text-gray-500">{label}</dt>
+          <dd
+            className={`truncate ${warning ? 'text-amber-700 font-medium' : value ? 'text-gray-900' : 'text-gray-400'}`}
+            title={value}
+          >
+            {value ?? '—'}
+          </dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+};
+
+export default MetadataPanel;
@@ -1,37 +1,101 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import JSZip from 'jszip';
-import { ProcessedImage, FormatOptions, FormatPreset, formatPresets, ImageFilters } from '../types';
-import { createFormattedImage, loadImageFromFile, downloadCanvas } from '../utils/imageProcessor';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { ProcessedImage, FormatOptions, ExportOptions, FilterLook, FormatPreset, formatPresets, exportFormats, ImageFilters, BackgroundOptions, BackgroundMode, FitMode, ImagePlacement, ImageTransform, LayerMask, defaultPlacement } from '../types';
+import { renderProcessedImage, isRenderCancelled } from '../utils/renderQueue';
+import { exportImage, exportImagesAsZip, getExportFilename, getExportFormat, isExportFormatSupported, downloadBlob } from '../utils/exporter';
+import { bitmapToCanvas } from '../utils/canvas';
+import { usePlacementGesture } from '../hooks/usePlacementGesture';
+import { usePreviewSize } from '../hooks/usePreviewSize';
+import CropRotateEditor from './CropRotateEditor';
+import PresetEditor from './PresetEditor';
+import { CUSTOM_PLATFORM, upsertCustomPreset } from '../utils/customPresets';
+import { createLookId, isLookApplied } from '../utils/filterLooks';
+import { FilterDefinition, applyFilmLook, getFilterDefinition, getFilterParams, setFilterParams } from '../utils/filterRegistry';
+import { useLookThumbnails } from '../hooks/useLookThumbnails';
+import { useUnfilteredPreview } from '../hooks/useUnfilteredPreview';
+import { useLoadedLutsKey } from '../hooks/useColorLuts';
+import CompareSlider from './CompareSlider';
+import ClippingOverlay from './ClippingOverlay';
+import MaskOverlay from './MaskOverlay';
+import HistogramPanel from './HistogramPanel';
+import LayerStack from './LayerStack';
+import BackgroundColorPicker from './BackgroundColorPicker';
 
 interface MobilePhotoEditorProps {
   images: ProcessedImage[];
   formatOptions: FormatOptions;
   filters: ImageFilters;
+  exportOptions: ExportOptions;
+  customPresets: FormatPreset[];
+  filterLooks: FilterLook[];
+  onFilterLooksChange: (looks: FilterLook[]) => void;
+  onExportOptionsChange: (exportOptions: ExportOptions) => void;
   onFormatChange: (preset: FormatPreset) => void;
+  onCustomPresetsChange: (presets: FormatPreset[]) => void;
+  onFitModeChange: (fitMode: FitMode) => void;
+  onBackgroundChange: (background: BackgroundOptions) => void;
+  onBackgroundColorChange: (color: string) => void;
   onFilterChange: (filters: ImageFilters) => void;
   onUpdateImage: (id: string, updates: Partial<ProcessedImage>) => void;
+  onResetImageFilters: (id: string) => void;
   onRemoveImage: (id: string) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
   images,
   formatOptions,
   filters,
+  exportOptions,
+  customPresets,
+  filterLooks,
+  onFilterLooksChange,
+  onExportOptionsChange,
   onFormatChange,
+  onCustomPresetsChange,
+  onFitModeChange,
+  onBackgroundChange,
+  onBackgroundColorChange,
   onFilterChange,
   onUpdateImage,
+  onResetImageFilters,
   onRemoveImage,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
 }) => {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [selectedPlatform, setSelectedPlatform] = useState('All');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
   const [previewUrl, setPreviewUrl] = useState<string>('');
+  const [previewImageId, setPreviewImageId] = useState<string>('');
+  const renderController = useRef<AbortController | null>(null);
+  const { ref: previewAreaRef, size: previewSize } = usePreviewSize<HTMLDivElement>();
   const [showFilters, setShowFilters] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [comparePosition, setComparePosition] = useState(50);
+  const [isHoldingBefore, setIsHoldingBefore] = useState(false);
+  const [showClipping, setShowClipping] = useState(false);
+  const [maskLayerId, setMaskLayerId] = useState<string | null>(null);
+  const [showBackground, setShowBackground] = useState(false);
+  const [showCropEditor, setShowCropEditor] = useState(false);
+  const [filterScope, setFilterScope] = useState<'all' | 'image'>('all');
   const [showDownloadMenu, setShowDownloadMenu] = useState(false);
   const [isCreatingZip, setIsCreatingZip] = useState(false);
+  const [zipProgress, setZipProgress] = useState({ completed: 0, total: 0 });
+  const [showPresetEditor, setShowPresetEditor] = useState(false);
 
   const currentImage = images[currentImageIndex] || null;
 
+  // Overridden images keep their own filters; everything else follows the global ones
+  const activeFilters = currentImage?.overrideFilters ? currentImage.filters : filters;
+  const editedFilters = filterScope === 'image' ? activeFilters : filters;
+  const lookThumbnails = useLookThumbnails(showFilters ? currentImage : null, filterLooks);
+
   // Memoize static data to prevent unnecessary re-renders
   const platforms = useMemo(() => [
     { id: 'all', name: 'All', icon: '📱' },
@@ -39,6 +103,7 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
     { id: 'facebook', name: 'Facebook', icon: '👥' },
     { id: 'youtube', name: 'YouTube', icon: '📺' },
     { id: 'twitter', name: 'X', icon: '🐦' },
+    { id: 'custom', name: CUSTOM_PLATFORM, icon: '⭐' },
   ], []);
 
   const formatPresetIcons = useMemo(() => ({
@@ -56,24 +121,48 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
     'twitter-header': { icon: '🖼️', label: 'Header', platforms: ['All', 'X'] },
   }), []);
 
-  const quickFilters = useMemo(() => [
-    { key: 'vintage', label: 'Vintage', emoji: '📸' },
-    { key: 'drama', label: 'Drama', emoji: '🎭' },
-    { key: 'lomo', label: 'Lomo', emoji: '📷' },
-    { key: 'polaroid', label: 'Polaroid', emoji: '📸' },
+  const quickFilters = useMemo(() =>
+    ['vintage', 'drama', 'lomo', 'polaroid'].map(id => getFilterDefinition(id)!),
+  []);
+
+  const backgroundModes = useMemo(() => [
+    { id: 'solid' as BackgroundMode, label: 'Solid', emoji: '🎨' },
+    { id: 'blur' as BackgroundMode, label: 'Blurred', emoji: '🌫️' },
+    { id: 'gradient' as BackgroundMode, label: 'Gradient', emoji: '🌈' },
+    { id: 'image' as BackgroundMode, label: 'Image', emoji: '🧱' },
+  ], []);
+
+  const fitModes = useMemo(() => [
+    { id: 'contain' as FitMode, label: 'Fit' },
+    { id: 'cover' as FitMode, label: 'Fill' },
+    { id: 'stretch' as FitMode, label: 'Stretch' },
+    { id: 'none' as FitMode, label: 'Native' },
   ], []);
 
   // Create stable keys for dependency comparison
   const formatKey = useMemo(() => 
-    `${formatOptions.preset.id}-${formatOptions.backgroundColor}-${formatOptions.size}`, 
-    [formatOptions.preset.id, formatOptions.backgroundColor, formatOptions.size]
+    `${formatOptions.preset.id}-${formatOptions.backgroundColor}-${formatOptions.size}-${formatOptions.fitMode}-${JSON.stringify(formatOptions.background)}`, 
+    [formatOptions.preset.id, formatOptions.backgroundColor, formatOptions.size, formatOptions.fitMode, formatOptions.background]
   );
 
   const filtersKey = useMemo(() => 
-    JSON.stringify(filters), 
-    [filters]
+    JSON.stringify(activeFilters), 
+    [activeFilters]
+  );
+
+  const placementKey = useMemo(() => 
+    JSON.stringify(currentImage?.placement), 
+    [currentImage?.placement]
   );
 
+  const transformKey = useMemo(() => 
+    JSON.stringify(currentImage?.transform), 
+    [currentImage?.transform]
+  );
+
+  // LUTs can finish loading (or be deleted) after the filters were set
+  const lutsKey = useLoadedLutsKey(activeFilters);
+
   // Cleanup previous preview URL when component unmounts or image changes
   React.useEffect(() => {
     return () => {
@@ -88,49 +177,110 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
     if (currentImage) {
       processCurrentImage();
     }
-  }, [currentImage?.id, formatKey, filtersKey]); // Only depend on stable keys
+  }, [currentImage?.id, formatKey, filtersKey, placementKey, transformKey, previewSize, lutsKey]); // Only depend on stable keys
 
   const processCurrentImage = useCallback(async () => {
-    if (!currentImage || isProcessing) return;
-    
+    if (!currentImage) return;
+
+    // Switching photos or moving a slider supersedes the render still in flight
+    renderController.current?.abort();
+    const controller = new AbortController();
+    renderController.current = controller;
+
     setIsProcessing(true);
+    setProgress(0);
     try {
-      // Cleanup previous preview URL
-      if (previewUrl && previewUrl.startsWith('blob:')) {
-        URL.revokeObjectURL(previewUrl);
-      }
+      const result = await renderProcessedImage(currentImage, formatOptions, activeFilters, {
+        key: 'mobile-preview',
+        signal: controller.signal,
+        onProgress: setProgress,
+        includeBitmap: true,
+        // Sized to the screen; downloads render at full resolution
+        maxDimension: previewSize,
+      });
+      const canvas = bitmapToCanvas(result.bitmap!);
+      result.bitmap!.close();
 
-      const img = await loadImageFromFile(currentImage.original);
-      const canvas = createFormattedImage(img, formatOptions, filters);
-      const url = canvas.toDataURL('image/png');
+      // The previous preview URL is revoked by the cleanup effect above
+      const url = URL.createObjectURL(result.blob);
       setPreviewUrl(url);
+      setPreviewImageId(currentImage.id);
       
-      // Update the current image with the new filters and processed result
+      // Update the current image with the processed result
       onUpdateImage(currentImage.id, {
         processed: url,
         canvas: canvas,
-        filters: filters // Update the image's filters to match global filters
+        photoRect: result.photoRect,
       });
+      setIsProcessing(false);
     } catch (error) {
+      // A cancelled render has already been replaced by a newer one
+      if (isRenderCancelled(error)) return;
       console.error('Error processing image:', error);
-    } finally {
       setIsProcessing(false);
     }
-  }, [currentImage, formatOptions, filters, isProcessing, previewUrl, onUpdateImage]);
+  }, [currentImage, formatOptions, activeFilters, previewSize, onUpdateImage]);
+
+  React.useEffect(() => () => renderController.current?.abort(), []);
+
+  // Route filter edits to the current image or to the global filters
+  const handleFiltersEdit = useCallback((newFilters: ImageFilters) => {
+    if (filterScope === 'image' && currentImage) {
+      onUpdateImage(currentImage.id, { filters: newFilters, overrideFilters: true });
+    } else {
+      onFilterChange(newFilters);
+    }
+  }, [filterScope, currentImage, onUpdateImage, onFilterChange]);
+
+  // Layer whose mask is being dragged on the preview
+  const maskLayer = maskLayerId ? editedFilters.layers.find(layer => layer.id === maskLayerId && layer.mask) : undefined;
 
-  const handleDownload = useCallback(() => {
-    if (currentImage?.canvas) {
+  const handleMaskChange = useCallback((mask: LayerMask) => {
+    handleFiltersEdit({
+      ...editedFilters,
+      layers: editedFilters.layers.map(layer => (layer.id === maskLayerId ? { ...layer, mask } : layer)),
+    });
+  }, [editedFilters, maskLayerId, handleFiltersEdit]);
+
+  const handlePlacementChange = useCallback((placement: ImagePlacement) => {
+    if (currentImage) {
+      onUpdateImage(currentImage.id, { placement });
+    }
+  }, [currentImage, onUpdateImage]);
+
+  const handleTransformApply = useCallback((transform: ImageTransform) => {
+    if (currentImage) {
+      onUpdateImage(currentImage.id, { transform });
+    }
+    setShowCropEditor(false);
+  }, [currentImage, onUpdateImage]);
+
+  const { containerProps, previewStyle } = usePlacementGesture(
+    currentImage?.placement ?? defaultPlacement,
+    handlePlacementChange,
+    formatOptions.preset.id !== 'original'
+  );
+
+  const isComparing = showCompare || isHoldingBefore;
+  const beforeUrl = useUnfilteredPreview(currentImage, formatOptions, isComparing, previewSize);
+
+  const handleDownload = useCallback(async () => {
+    if (!currentImage) return;
+
+    setShowDownloadMenu(false);
+    try {
+      const { blob } = await exportImage(currentImage, formatOptions, exportOptions, activeFilters);
       const formatName = formatOptions.preset.name.toLowerCase().replace(/\s+/g, '_');
-      const filename = `${formatName}_${currentImage.original.name.replace(/\.[^/.]+$/, '')}.png`;
-      downloadCanvas(currentImage.canvas, filename);
-      setShowDownloadMenu(false);
+      const baseName = `${formatName}_${currentImage.original.name.replace(/\.[^/.]+$/, '')}`;
+      downloadBlob(blob, getExportFilename(baseName, blob));
+    } catch (error) {
+      console.error('Error downloading image:', error);
+      alert('Failed to download image. Please try again.');
     }
-  }, [currentImage, formatOptions.preset.name]);
+  }, [currentImage, formatOptions, exportOptions, activeFilters]);
 
   const handleDownloadAll = useCallback(async () => {
-    const processedImages = images.filter(img => img.canvas);
-    
-    if (processedImages.length === 0) {
+    if (images.length === 0) {
       alert('No processed images to download');
       return;
     }
@@ -139,39 +289,28 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
     setShowDownloadMenu(false);
 
     try {
-      const zip = new JSZip();
       const formatName = formatOptions.preset.name.toLowerCase().replace(/\s+/g, '_');
 
-      // Add each processed image to the zip
-      for (let i = 0; i < processedImages.length; i++) {
-        const image = processedImages[i];
-        if (image.canvas) {
-          const dataUrl = image.canvas.toDataURL('image/png');
-          const base64Data = dataUrl.split(',')[1];
+      // Render every image at full resolution through the worker pool
+      const { zip } = await exportImagesAsZip(
+        images,
+        formatOptions,
+        exportOptions,
+        (image) => {
           const originalName = image.original.name.replace(/\.[^/.]+$/, '');
-          const filename = `${formatName}_${originalName}_${i + 1}.png`;
-          zip.file(filename, base64Data, { base64: true });
-        }
-      }
+          return `${formatName}_${originalName}_${images.indexOf(image) + 1}`;
+        },
+        (completed, total) => setZipProgress({ completed, total })
+      );
 
-      // Generate and download the zip file
-      const zipBlob = await zip.generateAsync({ type: 'blob' });
-      const url = URL.createObjectURL(zipBlob);
-      
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `photosquare_${formatName}_${new Date().toISOString().split('T')[0]}.zip`;
-      link.click();
-      
-      // Clean up
-      URL.revokeObjectURL(url);
+      downloadBlob(zip, `photosquare_${formatName}_${new Date().toISOString().split('T')[0]}.zip`);
     } catch (error) {
       console.error('Error creating zip file:', error);
       alert('Failed to create zip file. Please try again.');
     } finally {
       setIsCreatingZip(false);
     }
-  }, [images, formatOptions.preset.name]);
+  }, [images, formatOptions, exportOptions]);
 
   const handleRemoveImage = useCallback(() => {
     if (currentImage) {
@@ -183,37 +322,15 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
     }
   }, [currentImage, onRemoveImage, currentImageIndex, images.length]);
 
-  const applyQuickFilter = useCallback((filterKey: string) => {
-    const newFilters = {
-      ...filters,
-      // Reset all preset filters
-      vintage: 0,
-      drama: 0,
-      lomo: 0,
-      cross: 0,
-      pinhole: 0,
-      kodachrome: 0,
-      technicolor: 0,
-      polaroid: 0,
-      // Apply selected filter
-      [filterKey]: 70,
-    };
-    onFilterChange(newFilters);
-  }, [filters, onFilterChange]);
+  const applyQuickFilter = useCallback((definition: FilterDefinition) => {
+    handleFiltersEdit(applyFilmLook(editedFilters, definition));
+  }, [editedFilters, handleFiltersEdit]);
 
-  // Cleanup blob URLs when images change
-  React.useEffect(() => {
-    return () => {
-      images.forEach(image => {
-        if (image.originalUrl && image.originalUrl.startsWith('blob:')) {
-          URL.revokeObjectURL(image.originalUrl);
-        }
-        if (image.processed && image.processed.startsWith('blob:')) {
-          URL.revokeObjectURL(image.processed);
-        }
-      });
-    };
-  }, [images]);
+  const saveLook = useCallback(() => {
+    const name = prompt('Name this look', `Look ${filterLooks.length + 1}`)?.trim();
+    if (!name) return;
+    onFilterLooksChange([...filterLooks, { id: createLookId(), name, filters: { ...editedFilters } }]);
+  }, [filterLooks, editedFilters, onFilterLooksChange]);
 
   // Close download menu when clicking outside
   React.useEffect(() => {
@@ -258,8 +375,56 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
         </button>
         
         <div className="flex items-center space-x-3">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="p-2 rounded-lg transition-colors text-gray-500 hover:text-gray-700 disabled:opacity-30"
+            title="Undo"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+            </svg>
+          </button>
+
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="p-2 rounded-lg transition-colors text-gray-500 hover:text-gray-700 disabled:opacity-30"
+            title="Redo"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+            </svg>
+          </button>
+
+          <button 
+            onClick={() => setShowCropEditor(true)}
+            className="p-2 rounded-lg transition-colors text-gray-500 hover:text-gray-700"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 2v14a2 2 0 002 2h14M2 6h14a2 2 0 012 2v14" />
+            </svg>
+          </button>
+
+          {formatOptions.preset.id !== 'original' && (
+            <button 
+              onClick={() => {
+                setShowBackground(!showBackground);
+                setShowFilters(false);
+              }}
+              className={`p-2 rounded-lg transition-colors ${showBackground ? 'bg-blue-100 text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v14a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm4 3h8v8H8V8z" />
+              </svg>
+            </button>
+          )}
+
           <button 
-            onClick={() => setShowFilters(!showFilters)}
+            onClick={() => {
+              setShowFilters(!showFilters);
+              setShowBackground(false);
+            }}
             className={`p-2 rounded-lg transition-colors ${showFilters ? 'bg-blue-100 text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -288,7 +453,11 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
               {isCreatingZip ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  <span>Creating ZIP...</span>
+                  <span>
+                    {zipProgress.completed < zipProgress.total
+                      ? `Rendering ${zipProgress.completed}/${zipProgress.total}`
+                      : 'Creating ZIP...'}
+                  </span>
                 </>
               ) : (
                 <>
@@ -302,7 +471,7 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
 
             {/* Download Dropdown */}
             {showDownloadMenu && (
-              <div className="absolute right-0 top-full mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+              <div className="absolute right-0 top-full mt-2 w-64 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
                 <div className="py-1">
                   <button
                     onClick={handleDownload}
@@ -318,16 +487,122 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
                   {images.length > 1 && (
                     <button
                       onClick={handleDownloadAll}
-                      disabled={images.filter(img => img.canvas).length === 0}
                       className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                       </svg>
-                      <span>Download All ({images.filter(img => img.canvas).length}) as ZIP</span>
+                      <span>Download All ({images.length}) as ZIP</span>
                     </button>
                   )}
                 </div>
+
+                {/* Export Settings */}
+                <div className="border-t border-gray-100 px-4 py-3 space-y-3">
+                  <div className="grid grid-cols-4 gap-1">
+                    {exportFormats.map((option) => (
+                      <button
+                        key={option.id}
+                        onClick={() => onExportOptionsChange({ ...exportOptions, format: option.id })}
+                        disabled={!isExportFormatSupported(option.id)}
+                        className={`py-1 rounded text-xs font-medium transition-colors disabled:opacity-40 ${
+                          exportOptions.format === option.id
+                            ? 'bg-black text-white'
+                            : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {option.name}
+                      </button>
+                    ))}
+                  </div>
+                  {getExportFormat(exportOptions.format).lossy && (
+                    <div>
+                      <div className="flex justify-between text-xs text-gray-500 mb-1">
+                        <span>Quality</span>
+                        <span>{exportOptions.quality}%</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={1}
+                        max={100}
+                        value={exportOptions.quality}
+                        onChange={(e) => onExportOptionsChange({ ...exportOptions, quality: Number(e.target.value) })}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                      />
+                    </div>
+                  )}
+                  {formatOptions.preset.id === 'original' && getExportFormat(exportOptions.format).transparency && (
+                    <label className="flex items-center space-x-2 text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={exportOptions.keepTransparency}
+                        onChange={(e) => onExportOptionsChange({ ...exportOptions, keepTransparency: e.target.checked })}
+                      />
+                      <span>Keep transparency</span>
+                    </label>
+                  )}
+                  <div className="flex items-center justify-between text-xs text-gray-700">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={exportOptions.maxFileSizeKB > 0}
+                        onChange={(e) => onExportOptionsChange({ ...exportOptions, maxFileSizeKB: e.target.checked ? 500 : 0 })}
+                      />
+                      <span>Max size</span>
+                    </label>
+                    {exportOptions.maxFileSizeKB > 0 && (
+                      <div className="flex items-center space-x-1">
+                        <input
+                          type="number"
+                          min={10}
+                          step={10}
+                          value={exportOptions.maxFileSizeKB}
+                          onChange={(e) => onExportOptionsChange({ ...exportOptions, maxFileSizeKB: Math.max(1, Number(e.target.value) || 1) })}
+                          className="w-16 px-1 py-0.5 border border-gray-300 rounded text-xs"
+                        />
+                        <span>KB</span>
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500 mb-1">
+                      Metadata{exportOptions.format !== 'jpeg' && exportOptions.metadata.mode !== 'strip' && ' (JPEG only)'}
+                    </div>
+                    <div className="grid grid-cols-3 gap-1">
+                      {(['strip', 'keep', 'select'] as const).map((mode) => (
+                        <button
+                          key={mode}
+                          onClick={() => onExportOptionsChange({ ...exportOptions, metadata: { ...exportOptions.metadata, mode } })}
+                          className={`py-1 rounded text-xs font-medium capitalize transition-colors ${
+                            exportOptions.metadata.mode === mode
+                              ? 'bg-black text-white'
+                              : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          {mode}
+                        </button>
+                      ))}
+                    </div>
+                    {exportOptions.metadata.mode === 'select' && (
+                      <div className="mt-2 space-y-1">
+                        <input
+                          type="text"
+                          value={exportOptions.metadata.author}
+                          onChange={(e) => onExportOptionsChange({ ...exportOptions, metadata: { ...exportOptions.metadata, author: e.target.value } })}
+                          placeholder="Author"
+                          className="w-full px-1 py-0.5 border border-gray-300 rounded text-xs"
+                        />
+                        <input
+                          type="text"
+                          value={exportOptions.metadata.copyright}
+                          onChange={(e) => onExportOptionsChange({ ...exportOptions, metadata: { ...exportOptions.metadata, copyright: e.target.value } })}
+                          placeholder="Copyright"
+                          className="w-full px-1 py-0.5 border border-gray-300 rounded text-xs"
+                        />
+                      </div>
+                    )}
+                  </div>
+                </div>
               </div>
             )}
           </div>
@@ -338,25 +613,53 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
       <div className="flex-1 flex flex-col overflow-hidden">
         {/* Image Preview */}
         <div className="flex-1 p-4 flex items-center justify-center overflow-hidden">
-          <div className="relative w-full h-full flex items-center justify-center">
+          <div ref={previewAreaRef} className="relative w-full h-full flex items-center justify-center">
             <div 
-              className="border-4 border-blue-400 rounded-lg overflow-hidden shadow-lg max-w-full max-h-full"
+              {...containerProps}
+              className="relative border-4 border-blue-400 rounded-lg overflow-hidden shadow-lg max-w-full max-h-full select-none"
               style={{ 
+                ...containerProps.style,
                 aspectRatio: formatOptions.preset.id === 'original' ? 'auto' : formatOptions.aspectRatio,
                 width: 'auto',
                 height: 'auto'
               }}
             >
-              {isProcessing ? (
-                <div className="w-full h-full bg-gray-100 flex items-center justify-center min-h-[200px]">
+              {isProcessing && previewImageId !== currentImage.id ? (
+                <div className="w-full h-full bg-gray-100 flex flex-col items-center justify-center min-h-[200px]">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                  <span className="mt-2 text-xs text-gray-500">{Math.round(progress * 100)}%</span>
                 </div>
               ) : previewUrl ? (
-                <img
-                  src={previewUrl}
-                  alt="Preview"
-                  className="w-full h-full object-contain"
-                />
+                <>
+                  <img
+                    src={previewUrl}
+                    alt="Preview"
+                    className="w-full h-full object-contain pointer-events-none"
+                    style={previewStyle}
+                    draggable={false}
+                  />
+                  {showClipping && (
+                    <ClippingOverlay canvas={currentImage.canvas} photoRect={currentImage.photoRect} style={previewStyle} />
+                  )}
+                  {isComparing && (
+                    <CompareSlider
+                      beforeUrl={beforeUrl}
+                      position={isHoldingBefore ? 100 : comparePosition}
+                      showDivider={showCompare && !isHoldingBefore}
+                      imageStyle={previewStyle}
+                      onPositionChange={setComparePosition}
+                    />
+                  )}
+                  {maskLayer?.mask && (
+                    <MaskOverlay mask={maskLayer.mask} onChange={handleMaskChange} onDone={() => setMaskLayerId(null)} />
+                  )}
+                  {/* Keep showing the last preview of this photo while the next one renders */}
+                  {isProcessing && (
+                    <div className="absolute top-2 right-2 bg-black bg-opacity-50 rounded-full p-1">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    </div>
+                  )}
+                </>
               ) : (
                 <img
                   src={currentImage.originalUrl || URL.createObjectURL(currentImage.original)}
@@ -366,6 +669,47 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
               )}
             </div>
             
+            {/* Reposition hint / reset */}
+            {formatOptions.preset.id !== 'original' && (
+              <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex items-center space-x-2">
+                {JSON.stringify(currentImage.placement) !== JSON.stringify(defaultPlacement) ? (
+                  <button
+                    onClick={() => handlePlacementChange({ ...defaultPlacement })}
+                    className="bg-black bg-opacity-50 text-white text-xs px-3 py-1 rounded-full"
+                  >
+                    Reset position
+                  </button>
+                ) : (
+                  <span className="bg-black bg-opacity-50 text-white text-xs px-3 py-1 rounded-full">
+                    Drag to move · pinch to zoom
+                  </span>
+                )}
+              </div>
+            )}
+
+            {/* Before/after: split view toggle, or press and hold for the frame without filters */}
+            {previewUrl && (
+              <div className="absolute top-2 left-2 flex items-center space-x-1">
+                <button
+                  onClick={() => setShowCompare(!showCompare)}
+                  className={`text-xs px-2 py-1 rounded ${showCompare ? 'bg-blue-600 text-white' : 'bg-black bg-opacity-50 text-white'}`}
+                >
+                  Split
+                </button>
+                <button
+                  onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    setIsHoldingBefore(true);
+                  }}
+                  onLostPointerCapture={() => setIsHoldingBefore(false)}
+                  onContextMenu={(e) => e.preventDefault()}
+                  className="bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded select-none touch-none"
+                >
+                  Hold: before
+                </button>
+              </div>
+            )}
+
             {/* Image counter */}
             {images.length > 1 && (
               <div className="absolute top-2 right-2 bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded">
@@ -378,37 +722,102 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
         {/* Quick Filters - Show when filters toggle is active */}
         {showFilters && (
           <div className="p-4 bg-gray-50 flex-shrink-0">
-            <h4 className="text-sm font-medium text-gray-700 mb-3">Filters</h4>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-medium text-gray-700">Filters</h4>
+              <div className="flex bg-white border border-gray-200 rounded-full p-0.5">
+                {([['all', 'All photos'], ['image', 'This photo']] as const).map(([scope, label]) => (
+                  <button
+                    key={scope}
+                    onClick={() => setFilterScope(scope)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                      filterScope === scope ? 'bg-black text-white' : 'text-gray-600'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="mb-3">
+              <HistogramPanel
+                canvas={currentImage.canvas}
+                photoRect={currentImage.photoRect}
+                showClipping={showClipping}
+                onShowClippingChange={setShowClipping}
+              />
+            </div>
+
+            {currentImage.overrideFilters && (
+              <div className="flex items-center justify-between mb-3 p-2 bg-amber-50 border border-amber-200 rounded-lg">
+                <span className="text-xs text-amber-800">This photo uses custom filters</span>
+                <button
+                  onClick={() => onResetImageFilters(currentImage.id)}
+                  className="text-xs text-amber-800 font-medium underline"
+                >
+                  Reset to global
+                </button>
+              </div>
+            )}
             
             {/* Quick Apply Buttons */}
             <div className="flex gap-2 overflow-x-auto pb-3 scrollbar-hide mb-4">
               {quickFilters.map((filter) => (
                 <button
-                  key={filter.key}
-                  onClick={() => applyQuickFilter(filter.key)}
+                  key={filter.id}
+                  onClick={() => applyQuickFilter(filter)}
                   className={`
                     flex-shrink-0 flex flex-col items-center p-2 rounded-lg border transition-all min-w-[60px]
-                    ${filters[filter.key as keyof ImageFilters] > 0
+                    ${(getFilterParams(editedFilters, filter).amount as number) > 0
                       ? 'border-purple-500 bg-purple-50'
                       : 'border-gray-200 bg-white hover:border-gray-300'
                     }
                   `}
                 >
-                  <span className="text-lg mb-1">{filter.emoji}</span>
+                  <span className="text-lg mb-1">{filter.icon}</span>
                   <span className="text-xs font-medium text-gray-700">{filter.label}</span>
                 </button>
               ))}
+              {/* Saved Looks */}
+              {filterLooks.map((look) => (
+                <button
+                  key={look.id}
+                  onClick={() => handleFiltersEdit({ ...look.filters })}
+                  className={`
+                    flex-shrink-0 flex flex-col items-center p-1 rounded-lg border transition-all w-[60px]
+                    ${isLookApplied(look, editedFilters)
+                      ? 'border-purple-500 bg-purple-50'
+                      : 'border-gray-200 bg-white hover:border-gray-300'
+                    }
+                  `}
+                >
+                  <div className="w-10 h-10 mb-1 rounded bg-gray-100 overflow-hidden">
+                    {lookThumbnails[look.id] && (
+                      <img src={lookThumbnails[look.id]} alt={look.name} className="w-full h-full object-cover" />
+                    )}
+                  </div>
+                  <span className="text-xs font-medium text-gray-700 truncate max-w-full">{look.name}</span>
+                </button>
+              ))}
+              <button
+                onClick={saveLook}
+                className="flex-shrink-0 flex flex-col items-center justify-center p-2 rounded-lg border border-dashed border-gray-300 text-gray-500 min-w-[60px]"
+                title="Save the current filters as a look"
+              >
+                <span className="text-lg mb-1">+</span>
+                <span className="text-xs font-medium">Save</span>
+              </button>
             </div>
 
             {/* Filter Sliders */}
             <div className="space-y-3">
               {quickFilters.map((filter) => {
-                const value = filters[filter.key as keyof ImageFilters] as number;
+                const value = getFilterParams(editedFilters, filter).amount as number;
                 return (
-                  <div key={`slider-${filter.key}`} className="bg-white p-3 rounded-lg">
+                  <div key={`slider-${filter.id}`} className="bg-white p-3 rounded-lg">
                     <div className="flex items-center justify-between mb-2">
                       <span className="text-sm font-medium text-gray-700 flex items-center">
-                        <span className="mr-2">{filter.emoji}</span>
+                        <span className="mr-2">{filter.icon}</span>
                         {filter.label}
                       </span>
                       <span className="text-sm text-gray-500">{value}%</span>
@@ -420,11 +829,7 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
                       value={value}
                       onChange={(e) => {
                         const newValue = parseInt(e.target.value);
-                        const newFilters = {
-                          ...filters,
-                          [filter.key]: newValue,
-                        };
-                        onFilterChange(newFilters);
+                        handleFiltersEdit(setFilterParams(editedFilters, filter, { amount: newValue }));
                       }}
                       className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
                       style={{
@@ -435,6 +840,79 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
                 );
               })}
             </div>
+
+            <div className="mt-4 bg-white p-3 rounded-lg">
+              <LayerStack filters={editedFilters} onChange={handleFiltersEdit} onEditMask={setMaskLayerId} />
+            </div>
+          </div>
+        )}
+
+        {/* Background Style - Show when background toggle is active */}
+        {showBackground && formatOptions.preset.id !== 'original' && (
+          <div className="p-4 bg-gray-50 flex-shrink-0">
+            <h4 className="text-sm font-medium text-gray-700 mb-3">Background</h4>
+
+            <div className="flex gap-2 mb-4">
+              {backgroundModes.map((mode) => (
+                <button
+                  key={mode.id}
+                  onClick={() => onBackgroundChange({ ...formatOptions.background, mode: mode.id })}
+                  className={`
+                    flex-1 flex flex-col items-center justify-center p-2 rounded-lg border transition-all
+                    ${formatOptions.background.mode === mode.id
+                      ? 'border-blue-500 bg-blue-50'
+                      : 'border-gray-200 bg-white hover:border-gray-300'
+                    }
+                  `}
+                >
+                  <span className="text-lg">{mode.emoji}</span>
+                  <span className="text-xs font-medium text-gray-700">{mode.label}</span>
+                </button>
+              ))}
+            </div>
+
+            {formatOptions.background.mode === 'blur' && (
+              <div className="space-y-3">
+                <div className="bg-white p-3 rounded-lg">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-gray-700">Blur Radius</span>
+                    <span className="text-sm text-gray-500">{formatOptions.background.blurRadius}px</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={formatOptions.background.blurRadius}
+                    onChange={(e) => onBackgroundChange({ ...formatOptions.background, blurRadius: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                  />
+                </div>
+                <div className="bg-white p-3 rounded-lg">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-gray-700">Dim</span>
+                    <span className="text-sm text-gray-500">{formatOptions.background.dim}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="80"
+                    value={formatOptions.background.dim}
+                    onChange={(e) => onBackgroundChange({ ...formatOptions.background, dim: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Same color, gradient and texture controls as the desktop sidebar */}
+            {formatOptions.background.mode !== 'blur' && (
+              <BackgroundColorPicker
+                backgroundColor={formatOptions.backgroundColor}
+                background={formatOptions.background}
+                onChange={onBackgroundColorChange}
+                onBackgroundChange={onBackgroundChange}
+              />
+            )}
           </div>
         )}
 
@@ -493,7 +971,60 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
                 </button>
               );
             })}
+            {(selectedPlatform === 'All' || selectedPlatform === CUSTOM_PLATFORM) && customPresets.map((preset) => (
+              <button
+                key={preset.id}
+                onClick={() => onFormatChange(preset)}
+                className={`
+                  flex-1 flex flex-col items-center py-3 px-2 rounded-lg border transition-all min-w-0
+                  ${formatOptions.preset.id === preset.id
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 bg-white hover:border-gray-300'
+                  }
+                `}
+              >
+                <div className="w-8 h-8 flex items-center justify-center mb-1">
+                  <div className={`
+                    w-6 h-6 border border-gray-400 rounded flex items-center justify-center text-xs
+                    ${formatOptions.preset.id === preset.id ? 'border-blue-500' : ''}
+                  `}>
+                    {preset.icon}
+                  </div>
+                </div>
+                <span className="text-xs text-gray-700 font-medium truncate max-w-full">{preset.name}</span>
+              </button>
+            ))}
+            {selectedPlatform === CUSTOM_PLATFORM && (
+              <button
+                onClick={() => setShowPresetEditor(true)}
+                className="flex-1 flex flex-col items-center justify-center py-3 px-2 rounded-lg border border-dashed border-gray-300 text-gray-500 hover:border-gray-400"
+              >
+                <span className="text-lg leading-8">+</span>
+                <span className="text-xs font-medium">New</span>
+              </button>
+            )}
           </div>
+
+          {/* Fit Mode */}
+          {formatOptions.preset.id !== 'original' && (
+            <div className="flex gap-2 mt-2">
+              {fitModes.map((mode) => (
+                <button
+                  key={mode.id}
+                  onClick={() => onFitModeChange(mode.id)}
+                  className={`
+                    flex-1 py-1 rounded-full border text-xs font-medium transition-all
+                    ${formatOptions.fitMode === mode.id
+                      ? 'bg-black text-white border-black'
+                      : 'bg-white text-gray-700 border-gray-300 hover:border-gray-400'
+                    }
+                  `}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Image Thumbnails */}
@@ -511,7 +1042,7 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
                   key={image.id}
                   onClick={() => setCurrentImageIndex(index)}
                   className={`
-                    flex-shrink-0 w-16 h-16 rounded-lg border-2 overflow-hidden transition-all
+                    relative flex-shrink-0 w-16 h-16 rounded-lg border-2 overflow-hidden transition-all
                     ${index === currentImageIndex
                       ? 'border-blue-500 ring-2 ring-blue-300'
                       : 'border-gray-200 opacity-60 hover:opacity-100'
@@ -529,12 +1060,40 @@ const MobilePhotoEditor: React.FC<MobilePhotoEditorProps> = ({
                       }
                     }}
                   />
+                  {image.overrideFilters && (
+                    <span 
+                      className="absolute bottom-1 right-1 w-3 h-3 bg-amber-500 border border-white rounded-full"
+                      title="Custom filters"
+                    />
+                  )}
                 </button>
               ))}
             </div>
           </div>
         )}
       </div>
+
+      {showPresetEditor && (
+        <PresetEditor
+          currentBackgroundColor={formatOptions.backgroundColor}
+          currentBackground={formatOptions.background}
+          onSave={(preset) => {
+            onCustomPresetsChange(upsertCustomPreset(customPresets, preset));
+            onFormatChange(preset);
+            setShowPresetEditor(false);
+          }}
+          onClose={() => setShowPresetEditor(false)}
+        />
+      )}
+
+      {showCropEditor && (
+        <CropRotateEditor
+          image={currentImage}
+          aspectRatio={formatOptions.preset.id === 'original' ? 0 : formatOptions.aspectRatio}
+          onApply={handleTransformApply}
+          onClose={() => setShowCropEditor(false)}
+        />
+      )}
     </div>
   );
 };
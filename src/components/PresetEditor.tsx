@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { BackgroundOptions, FitMode, FormatPreset } from '../types';
+import { CUSTOM_PLATFORM, createPresetId, getPresetSize } from '../utils/customPresets';
+
+interface PresetEditorProps {
+  preset?: FormatPreset; // omitted when creating a new preset
+  currentBackgroundColor: string;
+  currentBackground: BackgroundOptions;
+  onSave: (preset: FormatPreset) => void;
+  onClose: () => void;
+}
+
+type SizeMode = 'exact' | 'ratio';
+
+const fitModes: { id: FitMode; label: string }[] = [
+  { id: 'contain', label: 'Fit' },
+  { id: 'cover', label: 'Fill' },
+  { id: 'stretch', label: 'Stretch' },
+  { id: 'none', label: 'Native' },
+];
+
+const PresetEditor: React.FC<PresetEditorProps> = ({
+  preset,
+  currentBackgroundColor,
+  currentBackground,
+  onSave,
+  onClose,
+}) => {
+  const [name, setName] = useState(preset?.name ?? '');
+  const [platform, setPlatform] = useState(preset?.platform ?? CUSTOM_PLATFORM);
+  const [icon, setIcon] = useState(preset?.icon ?? '⭐');
+  const [sizeMode, setSizeMode] = useState<SizeMode>('exact');
+  const [width, setWidth] = useState(preset?.width ?? 1080);
+  const [height, setHeight] = useState(preset?.height ?? 1080);
+  const [ratioWidth, setRatioWidth] = useState(preset ? preset.width : 4);
+  const [ratioHeight, setRatioHeight] = useState(preset ? preset.height : 3);
+  const [longEdge, setLongEdge] = useState(preset ? Math.max(preset.width, preset.height) : 2048);
+  const [fitMode, setFitMode] = useState<FitMode>(preset?.fitMode ?? 'contain');
+  // Snapshot the background that's selected right now, or leave the background alone
+  const [saveBackground, setSaveBackground] = useState(!!preset?.background);
+
+  const size = sizeMode === 'exact'
+    ? { width, height }
+    : getPresetSize(ratioWidth / Math.max(1, ratioHeight), longEdge);
+  const isValid = name.trim() !== '' && size.width > 0 && size.height > 0 && size.width <= 10000 && size.height <= 10000;
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onSave({
+      id: preset?.id ?? createPresetId(),
+      name: name.trim(),
+      platform: platform.trim() || CUSTOM_PLATFORM,
+      aspectRatio: size.width / size.height,
+      icon: icon || '⭐',
+      description: `${size.width}×${size.height}`,
+      width: size.width,
+      height: size.height,
+      fitMode,
+      custom: true,
+      backgroundColor: saveBackground ? (preset?.background ? preset.backgroundColor : currentBackgroundColor) : undefined,
+      background: saveBackground ? (preset?.background ?? currentBackground) : undefined,
+    });
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void, label: string) => (
+    <label className="flex-1">
+      <span className="block text-xs text-gray-500 mb-1">{label}</span>
+      <input
+        type="number"
+        min={1}
+        max={10000}
+        value={value}
+        onChange={(e) => onChange(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+        className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+      />
+    </label>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md max-h-full overflow-y-auto bg-white rounded-lg shadow-sm border"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">{preset ? 'Edit Preset' : 'New Preset'}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Name */}
+          <div className="flex gap-2">
+            <label className="w-16">
+              <span className="block text-xs text-gray-500 mb-1">Icon</span>
+              <input
+                type="text"
+                value={icon}
+                onChange={(e) => setIcon(e.target.value.slice(0, 2))}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-center"
+              />
+            </label>
+            <label className="flex-1">
+              <span className="block text-xs text-gray-500 mb-1">Name</span>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Newsletter header"
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            <label className="flex-1">
+              <span className="block text-xs text-gray-500 mb-1">Platform</span>
+              <input
+                type="text"
+                value={platform}
+                onChange={(e) => setPlatform(e.target.value)}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+          </div>
+
+          {/* Size */}
+          <div>
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              {(['exact', 'ratio'] as SizeMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setSizeMode(mode)}
+                  className={`
+                    py-2 rounded-lg border text-sm font-medium transition-all duration-200
+                    ${sizeMode === mode
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 shadow-sm'
+                      : 'border-gray-200 text-gray-700 hover:border-gray-300 hover:bg-gray-50'
+                    }
+                  `}
+                >
+                  {mode === 'exact' ? 'Width × Height' : 'Ratio + Long Edge'}
+                </button>
+              ))}
+            </div>
+            {sizeMode === 'exact' ? (
+              <div className="flex gap-2">
+                {numberInput(width, setWidth, 'Width (px)')}
+                {numberInput(height, setHeight, 'Height (px)')}
+              </div>
+            ) : (
+              <>
+                <div className="flex gap-2">
+                  {numberInput(ratioWidth, setRatioWidth, 'Ratio width')}
+                  {numberInput(ratioHeight, setRatioHeight, 'Ratio height')}
+                  {numberInput(longEdge, setLongEdge, 'Long edge (px)')}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Renders at {size.width}×{size.height}
+                </p>
+              </>
+            )}
+          </div>
+
+          {/* Fit Mode */}
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">Fit mode</span>
+            <div className="grid grid-cols-4 gap-2">
+              {fitModes.map((mode) => (
+                <button
+                  key={mode.id}
+                  onClick={() => setFitMode(mode.id)}
+                  className={`
+                    py-1 rounded-lg border text-sm font-medium transition-all duration-200
+                    ${fitMode === mode.id
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 shadow-sm'
+                      : 'border-gray-200 text-gray-700 hover:border-gray-300 hover:bg-gray-50'
+                    }
+                  `}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Default Background */}
+          <label className="flex items-start space-x-2">
+            <input
+              type="checkbox"
+              checked={saveBackground}
+              onChange={(e) => setSaveBackground(e.target.checked)}
+              className="mt-0.5 rounded border-gray-300 text-blue-600"
+            />
+            <span className="text-sm text-gray-700">
+              {preset?.background ? 'Keep the saved background' : 'Use the current background as default'}
+              <span className="block text-xs text-gray-500">
+                Applied whenever this preset is selected
+              </span>
+            </span>
+          </label>
+        </div>
+
+        <div className="p-4 border-t flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isValid}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Save Preset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresetEditor;
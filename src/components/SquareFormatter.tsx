@@ -1,58 +1,208 @@
-import React, { useEffect, useState, useMemo } from 'react';
-import { ProcessedImage, FormatOptions } from '../types';
-import { createFormattedImage, loadImageFromFile, downloadCanvas } from '../utils/imageProcessor';
+import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react';
+import { ProcessedImage, FormatOptions, ExportOptions, FilterLook, ImageFilters, ImagePlacement, ImageTransform, LayerMask, defaultPlacement } from '../types';
+import { renderProcessedImage, isRenderCancelled } from '../utils/renderQueue';
+import { exportImage, estimateExport, getExportFilename, getExportFormat, describeExport, downloadBlob, ExportedFile } from '../utils/exporter';
+import { bitmapToCanvas } from '../utils/canvas';
+import { usePlacementGesture, zoomPlacement } from '../hooks/usePlacementGesture';
+import { usePreviewSize } from '../hooks/usePreviewSize';
+import { useUnfilteredPreview } from '../hooks/useUnfilteredPreview';
+import { useLoadedLutsKey } from '../hooks/useColorLuts';
+import CompareSlider from './CompareSlider';
+import ClippingOverlay from './ClippingOverlay';
+import MaskOverlay from './MaskOverlay';
+import CropRotateEditor from './CropRotateEditor';
+import MetadataPanel from './MetadataPanel';
+import FilterEditor from './FilterEditor';
+
+// Wait for export settings to settle before encoding the preview to measure it
+const ESTIMATE_DELAY = 800;
 
 interface SquareFormatterProps {
   processedImage: ProcessedImage;
   formatOptions: FormatOptions;
+  exportOptions: ExportOptions;
+  filterLooks: FilterLook[];
+  onFilterLooksChange: (looks: FilterLook[]) => void;
+  showClipping?: boolean; // mark clipped highlights and shadows on the preview
   onUpdate: (id: string, updates: Partial<ProcessedImage>) => void;
+  onResetFilters: (id: string) => void;
   onRemove: (id: string) => void;
 }
 
 const SquareFormatter: React.FC<SquareFormatterProps> = ({
   processedImage,
   formatOptions,
+  exportOptions,
+  filterLooks,
+  onFilterLooksChange,
+  showClipping = false,
   onUpdate,
+  onResetFilters,
   onRemove,
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [progress, setProgress] = useState(0);
   const [previewUrl, setPreviewUrl] = useState<string>('');
+  const renderController = useRef<AbortController | null>(null);
+  const previewUrlRef = useRef<string>('');
+  const { ref: previewRef, size: previewSize } = usePreviewSize<HTMLDivElement>();
+  const [exportSize, setExportSize] = useState<{ file: ExportedFile; exact: boolean } | null>(null);
+  // The latest preview render, which the size estimate is encoded from
+  const [preview, setPreview] = useState<{ canvas: HTMLCanvasElement; scale: number } | null>(null);
+  const [showCropEditor, setShowCropEditor] = useState(false);
+  const [showFilterEditor, setShowFilterEditor] = useState(false);
+  const [showInfo, setShowInfo] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [comparePosition, setComparePosition] = useState(50);
+  const [isHoldingBefore, setIsHoldingBefore] = useState(false);
+  const [maskLayerId, setMaskLayerId] = useState<string | null>(null);
 
   // Create serialized versions for proper dependency tracking
   const filtersKey = useMemo(() => JSON.stringify(processedImage.filters), [processedImage.filters]);
   const formatKey = useMemo(() => JSON.stringify(formatOptions), [formatOptions]);
+  const placementKey = useMemo(() => JSON.stringify(processedImage.placement), [processedImage.placement]);
+  const transformKey = useMemo(() => JSON.stringify(processedImage.transform), [processedImage.transform]);
+  const exportKey = useMemo(() => JSON.stringify(exportOptions), [exportOptions]);
+  // LUTs can finish loading (or be deleted) after the filters were set
+  const lutsKey = useLoadedLutsKey(processedImage.filters);
 
   useEffect(() => {
     processImage();
-  }, [filtersKey, formatKey]); // Use serialized keys for reliable dependency tracking
+  }, [filtersKey, formatKey, placementKey, transformKey, previewSize, lutsKey]); // Use serialized keys for reliable dependency tracking
+
+  // Predict the exported file size from each finished preview, once the export settings settle.
+  // The preview and serialized keys decide when; the latest values are read when the timer fires.
+  const estimateInputs = useRef({ processedImage, formatOptions, exportOptions });
+  estimateInputs.current = { processedImage, formatOptions, exportOptions };
+
+  useEffect(() => {
+    setExportSize(null);
+    if (!preview) return;
+    let stale = false;
+    const timer = window.setTimeout(() => {
+      const { processedImage: image, formatOptions: format, exportOptions: options } = estimateInputs.current;
+      estimateExport(image, preview.canvas, preview.scale, format, options)
+        .then((file) => {
+          if (!stale) setExportSize({ file, exact: false });
+        })
+        .catch((error) => console.error('Error estimating export size:', error));
+    }, ESTIMATE_DELAY);
+
+    return () => {
+      stale = true;
+      window.clearTimeout(timer);
+    };
+  }, [preview, exportKey, processedImage.metadata]); // metadata is written into the export
+
+  // Drop any render still in flight when the card goes away
+  useEffect(() => () => {
+    renderController.current?.abort();
+    if (previewUrlRef.current) {
+      URL.revokeObjectURL(previewUrlRef.current);
+    }
+  }, []);
+
+  const canReposition = formatOptions.preset.id !== 'original';
+  const isRepositioned = placementKey !== JSON.stringify(defaultPlacement);
+
+  const handlePlacementChange = useCallback((placement: ImagePlacement) => {
+    onUpdate(processedImage.id, { placement });
+  }, [onUpdate, processedImage.id]);
+
+  // Editing an image's filters opts it out of the global filters
+  const handleFiltersChange = (filters: ImageFilters) => {
+    onUpdate(processedImage.id, { filters, overrideFilters: true });
+  };
+
+  // The filter editor steps aside while a layer's mask is dragged on the preview
+  const maskLayer = maskLayerId ? processedImage.filters.layers.find(layer => layer.id === maskLayerId && layer.mask) : undefined;
+
+  const handleEditMask = (layerId: string) => {
+    setMaskLayerId(layerId);
+    previewRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  };
+
+  const handleMaskChange = (mask: LayerMask) => {
+    handleFiltersChange({
+      ...processedImage.filters,
+      layers: processedImage.filters.layers.map(layer => (layer.id === maskLayerId ? { ...layer, mask } : layer)),
+    });
+  };
+
+  const handleTransformApply = (transform: ImageTransform) => {
+    onUpdate(processedImage.id, { transform });
+    setShowCropEditor(false);
+  };
+
+  const { containerProps, previewStyle } = usePlacementGesture(
+    processedImage.placement,
+    handlePlacementChange,
+    canReposition
+  );
+
+  const isComparing = showCompare || isHoldingBefore;
+  const beforeUrl = useUnfilteredPreview(processedImage, formatOptions, isComparing, previewSize);
 
   const processImage = async () => {
+    // A newer render supersedes whatever is still queued for this card
+    renderController.current?.abort();
+    const controller = new AbortController();
+    renderController.current = controller;
+
     setIsProcessing(true);
+    setProgress(0);
     try {
-      const img = await loadImageFromFile(processedImage.original);
-      const canvas = createFormattedImage(img, formatOptions, processedImage.filters);
-      
+      const result = await renderProcessedImage(processedImage, formatOptions, processedImage.filters, {
+        key: `card:${processedImage.id}`,
+        signal: controller.signal,
+        onProgress: setProgress,
+        includeBitmap: true,
+        // Only render as many pixels as the card shows; downloads render at full size
+        maxDimension: previewSize,
+      });
+      const canvas = bitmapToCanvas(result.bitmap!);
+      result.bitmap!.close();
+      setPreview({ canvas, scale: result.scale });
+
       // Create preview URL
-      const url = canvas.toDataURL('image/png');
+      const url = URL.createObjectURL(result.blob);
+      if (previewUrlRef.current) {
+        URL.revokeObjectURL(previewUrlRef.current);
+      }
+      previewUrlRef.current = url;
       setPreviewUrl(url);
       
       // Update the processed image
       onUpdate(processedImage.id, {
         processed: url,
         canvas: canvas,
+        photoRect: result.photoRect,
       });
+      setIsProcessing(false);
     } catch (error) {
+      // A cancelled render has already been replaced by a newer one, so keep the spinner up
+      if (isRenderCancelled(error)) return;
       console.error('Error processing image:', error);
-    } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleDownload = () => {
-    if (processedImage.canvas) {
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const result = await exportImage(processedImage, formatOptions, exportOptions);
       const formatName = formatOptions.preset.name.toLowerCase().replace(/\s+/g, '_');
-      const filename = `${formatName}_${processedImage.original.name.replace(/\.[^/.]+$/, '')}.png`;
-      downloadCanvas(processedImage.canvas, filename);
+      const baseName = `${formatName}_${processedImage.original.name.replace(/\.[^/.]+$/, '')}`;
+      const filename = getExportFilename(baseName, result.blob);
+      downloadBlob(result.blob, filename);
+      // The download is the real thing, so show its numbers instead of the estimate
+      setExportSize({ file: describeExport(filename, result), exact: true });
+    } catch (error) {
+      console.error('Error downloading image:', error);
+      alert('Failed to download image. Please try again.');
+    } finally {
+      setIsDownloading(false);
     }
   };
 
@@ -90,8 +240,56 @@ const SquareFormatter: React.FC<SquareFormatterProps> = ({
               <p className="text-xs text-blue-600 font-medium">
                 {getAspectRatioDisplay()}
               </p>
+              {exportSize && (
+                <>
+                  <span className="text-xs text-gray-400">•</span>
+                  <p
+                    className={`text-xs ${exportSize.file.withinLimit ? 'text-gray-500' : 'text-amber-700 font-medium'}`}
+                    title={`${exportSize.exact ? 'Downloaded' : 'Estimated'} ${getExportFormat(exportOptions.format).name} at ${exportSize.file.width}×${exportSize.file.height}${
+                      exportSize.file.withinLimit ? '' : `, still over the ${exportOptions.maxFileSizeKB} KB limit`
+                    }`}
+                  >
+                    {exportSize.exact ? '' : '≈ '}{formatFileSize(exportSize.file.size)}
+                    {exportSize.file.quality !== undefined && ` · q${Math.round(exportSize.file.quality * 100)}`}
+                  </p>
+                </>
+              )}
+              {processedImage.overrideFilters && (
+                <span 
+                  className="text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full font-medium"
+                  title="This image keeps its own filters and ignores global filter changes"
+                >
+                  Custom filters
+                </span>
+              )}
+              {processedImage.metadata?.gps && (
+                <span
+                  className="text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full font-medium"
+                  title="This photo contains its GPS location"
+                >
+                  GPS
+                </span>
+              )}
             </div>
           </div>
+          <button
+            onClick={() => setShowCompare(!showCompare)}
+            className={`ml-2 transition-colors ${showCompare ? 'text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+            title={showCompare ? 'Hide before/after' : 'Compare before/after filters'}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v18M5 5h4v14H5a1 1 0 01-1-1V6a1 1 0 011-1zm10 0h4a1 1 0 011 1v12a1 1 0 01-1 1h-4" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setShowInfo(!showInfo)}
+            className={`ml-2 transition-colors ${showInfo ? 'text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+            title={showInfo ? 'Hide photo info' : 'Show photo info'}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
           <button
             onClick={() => onRemove(processedImage.id)}
             className="ml-2 text-gray-400 hover:text-red-500 transition-colors"
@@ -103,27 +301,115 @@ const SquareFormatter: React.FC<SquareFormatterProps> = ({
         </div>
       </div>
 
+      {/* Photo Info */}
+      {showInfo && (
+        <div className="px-4 py-3 border-b">
+          <MetadataPanel metadata={processedImage.metadata} />
+        </div>
+      )}
+
       {/* Preview */}
-      <div className="bg-gray-100 relative overflow-hidden" style={{ 
-        aspectRatio: formatOptions.preset.id === 'original' ? 'auto' : formatOptions.aspectRatio 
-      }}>
-        {isProcessing ? (
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-          </div>
-        ) : previewUrl ? (
-          <img
-            src={previewUrl}
-            alt="Processed preview"
-            className="w-full h-full object-contain"
-          />
-        ) : (
-          <img
-            src={processedImage.originalUrl}
-            alt="Original"
-            className="w-full h-full object-contain"
-          />
-        )}
+      <div ref={previewRef}>
+        <div 
+          {...containerProps}
+          className="bg-gray-100 relative overflow-hidden select-none" 
+          style={{ 
+            ...containerProps.style,
+            aspectRatio: formatOptions.preset.id === 'original' ? 'auto' : formatOptions.aspectRatio 
+          }}
+        >
+          {isProcessing && !previewUrl ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span className="mt-2 text-xs text-gray-500">{Math.round(progress * 100)}%</span>
+            </div>
+          ) : previewUrl ? (
+            <>
+              <img
+                src={previewUrl}
+                alt="Processed preview"
+                className="w-full h-full object-contain pointer-events-none"
+                style={previewStyle}
+                draggable={false}
+              />
+              {showClipping && (
+                <ClippingOverlay canvas={processedImage.canvas} photoRect={processedImage.photoRect} style={previewStyle} />
+              )}
+              {isComparing && (
+                <CompareSlider
+                  beforeUrl={beforeUrl}
+                  position={isHoldingBefore ? 100 : comparePosition}
+                  showDivider={showCompare && !isHoldingBefore}
+                  imageStyle={previewStyle}
+                  onPositionChange={setComparePosition}
+                />
+              )}
+              {maskLayer?.mask && (
+                <MaskOverlay mask={maskLayer.mask} onChange={handleMaskChange} onDone={() => setMaskLayerId(null)} />
+              )}
+              {/* Keep showing the last preview while the next one renders */}
+              {isProcessing && (
+                <div className="absolute top-2 right-2 bg-black bg-opacity-50 rounded-full p-1">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                </div>
+              )}
+            </>
+          ) : (
+            <img
+              src={processedImage.originalUrl}
+              alt="Original"
+              className="w-full h-full object-contain"
+            />
+          )}
+
+          {/* Press and hold to see the whole frame without filters */}
+          {previewUrl && (
+            <button
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setIsHoldingBefore(true);
+              }}
+              onLostPointerCapture={() => setIsHoldingBefore(false)}
+              className="absolute bottom-2 left-2 h-7 px-2 bg-black bg-opacity-50 text-white rounded text-xs hover:bg-opacity-70 transition-colors select-none touch-none"
+              title="Hold to show without filters"
+            >
+              Before
+            </button>
+          )}
+
+          {/* Zoom Controls */}
+          {canReposition && previewUrl && (
+            <div 
+              className="absolute bottom-2 right-2 flex items-center space-x-1"
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              <button
+                onClick={() => handlePlacementChange(zoomPlacement(processedImage.placement, 1 / 1.2))}
+                className="w-7 h-7 bg-black bg-opacity-50 text-white rounded text-sm hover:bg-opacity-70 transition-colors"
+                title="Zoom out"
+              >
+                −
+              </button>
+              <button
+                onClick={() => handlePlacementChange(zoomPlacement(processedImage.placement, 1.2))}
+                className="w-7 h-7 bg-black bg-opacity-50 text-white rounded text-sm hover:bg-opacity-70 transition-colors"
+                title="Zoom in"
+              >
+                +
+              </button>
+              {isRepositioned && (
+                <button
+                  onClick={() => handlePlacementChange({ ...defaultPlacement })}
+                  className="h-7 px-2 bg-black bg-opacity-50 text-white rounded text-xs hover:bg-opacity-70 transition-colors"
+                  title="Reset position and zoom"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Actions */}
@@ -131,10 +417,10 @@ const SquareFormatter: React.FC<SquareFormatterProps> = ({
         <div className="flex space-x-2">
           <button
             onClick={handleDownload}
-            disabled={!processedImage.canvas || isProcessing}
+            disabled={!processedImage.canvas || isProcessing || isDownloading}
             className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
-            Download
+            {isDownloading ? 'Rendering...' : 'Download'}
           </button>
           <button
             onClick={processImage}
@@ -144,7 +430,79 @@ const SquareFormatter: React.FC<SquareFormatterProps> = ({
             Refresh
           </button>
         </div>
+        <div className="flex space-x-2 mt-2">
+          <button
+            onClick={() => setShowCropEditor(true)}
+            disabled={isProcessing}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Crop
+          </button>
+          <button
+            onClick={() => setShowFilterEditor(true)}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Filters
+          </button>
+        </div>
+        {processedImage.overrideFilters && (
+          <button
+            onClick={() => onResetFilters(processedImage.id)}
+            className="w-full mt-2 text-xs text-amber-700 hover:text-amber-800 font-medium"
+          >
+            ↺ Reset to global filters
+          </button>
+        )}
       </div>
+
+      {/* Kept mounted while editing a mask so it reopens where it was */}
+      {showFilterEditor && (
+        <div 
+          className={`fixed inset-0 z-50 bg-black bg-opacity-50 items-center justify-center p-4 ${maskLayer ? 'hidden' : 'flex'}`}
+          onClick={() => setShowFilterEditor(false)}
+        >
+          <div 
+            className="w-full max-w-md max-h-full overflow-y-auto space-y-3"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="bg-white rounded-lg shadow-sm border p-4 flex items-center justify-between">
+              <div className="min-w-0">
+                <h3 className="text-sm font-semibold text-gray-900 truncate">
+                  {processedImage.original.name}
+                </h3>
+                <p className="text-xs text-gray-500">
+                  {processedImage.overrideFilters 
+                    ? 'Using custom filters for this image' 
+                    : 'Following global filters - changes here will override them'}
+                </p>
+              </div>
+              <button
+                onClick={() => setShowFilterEditor(false)}
+                className="ml-2 bg-blue-600 text-white px-4 py-1 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+              >
+                Done
+              </button>
+            </div>
+            <FilterEditor
+              filters={processedImage.filters}
+              onChange={handleFiltersChange}
+              looks={filterLooks}
+              onLooksChange={onFilterLooksChange}
+              previewImage={processedImage}
+              onEditMask={handleEditMask}
+            />
+          </div>
+        </div>
+      )}
+
+      {showCropEditor && (
+        <CropRotateEditor
+          image={processedImage}
+          aspectRatio={formatOptions.preset.id === 'original' ? 0 : formatOptions.aspectRatio}
+          onApply={handleTransformApply}
+          onClose={() => setShowCropEditor(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+import { ImageFilters } from '../types';
+import { getColorLuts, subscribeColorLuts } from '../utils/colorLuts';
+import { getLayerLutIds } from '../utils/filterRegistry';
+
+// Imported LUTs, re-rendering whenever one is added or removed
+export const useColorLuts = () => useSyncExternalStore(subscribeColorLuts, getColorLuts);
+
+// Which of the LUTs `filters` grade with are loaded, as a key for render effects
+export const useLoadedLutsKey = (filters: ImageFilters | undefined): string => {
+  const luts = useColorLuts();
+  if (!filters) return '';
+  return getLayerLutIds(filters).filter(id => luts.some(lut => lut.id === id)).join();
+};
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const MAX_HISTORY = 100;
+// Wheel events this close together are one zoom gesture
+const WHEEL_GESTURE_GAP = 300;
+
+export interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+/**
+ * Undoable state. `update` records a step, `patch` changes every snapshot without one
+ * (for render results and other facts that aren't edits).
+ * Changes made while a pointer is held down, such as a slider drag, become a single step.
+ */
+export const useHistory = <T>(initial: T | (() => T)) => {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+  }));
+
+  // Each pointer press or wheel burst is a gesture; steps within one gesture merge
+  const gesture = useRef({ id: 0, pointerDown: false, lastWheel: 0, lastRecorded: -1 });
+
+  useEffect(() => {
+    const current = gesture.current;
+    const onPointerDown = () => {
+      current.id++;
+      current.pointerDown = true;
+    };
+    const onPointerUp = () => {
+      current.pointerDown = false;
+    };
+    const onWheel = () => {
+      const now = Date.now();
+      if (now - current.lastWheel > WHEEL_GESTURE_GAP) current.id++;
+      current.lastWheel = now;
+    };
+
+    window.addEventListener('pointerdown', onPointerDown, true);
+    window.addEventListener('pointerup', onPointerUp, true);
+    window.addEventListener('pointercancel', onPointerUp, true);
+    window.addEventListener('wheel', onWheel, { capture: true, passive: true });
+    return () => {
+      window.removeEventListener('pointerdown', onPointerDown, true);
+      window.removeEventListener('pointerup', onPointerUp, true);
+      window.removeEventListener('pointercancel', onPointerUp, true);
+      window.removeEventListener('wheel', onWheel, true);
+    };
+  }, []);
+
+  const update = useCallback((updater: (state: T) => T) => {
+    const current = gesture.current;
+    const inGesture = current.pointerDown || Date.now() - current.lastWheel < WHEEL_GESTURE_GAP;
+    const coalesce = inGesture && current.lastRecorded === current.id;
+    current.lastRecorded = inGesture ? current.id : -1;
+
+    setHistory(prev => {
+      const next = updater(prev.present);
+      if (next === prev.present) return prev;
+      if (coalesce) return { ...prev, present: next, future: [] };
+      return {
+        past: [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const patch = useCallback((updater: (state: T) => T) => {
+    setHistory(prev => ({
+      past: prev.past.map(updater),
+      present: updater(prev.present),
+      future: prev.future.map(updater),
+    }));
+  }, []);
+
+  const undo = useCallback(() => {
+    gesture.current.lastRecorded = -1;
+    setHistory(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future],
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    gesture.current.lastRecorded = -1;
+    setHistory(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1),
+    });
+  }, []);
+
+  // Start over from a new state with no undo steps, e.g. a restored session
+  const reset = useCallback((state: T) => {
+    gesture.current.lastRecorded = -1;
+    setHistory({ past: [], present: state, future: [] });
+  }, []);
+
+  return {
+    state: history.present,
+    history,
+    update,
+    patch,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
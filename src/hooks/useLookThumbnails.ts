@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react';
+import { FilterLook, FormatOptions, ProcessedImage, defaultFormatOptions } from '../types';
+import { renderProcessedImage, isRenderCancelled } from '../utils/renderQueue';
+import { useLoadedLutsKey } from './useColorLuts';
+
+const THUMBNAIL_SIZE = 128;
+
+// Square crops read better as swatches than letterboxed photos
+const thumbnailFormat: FormatOptions = { ...defaultFormatOptions, fitMode: 'cover' };
+
+/**
+ * Small previews of each look applied to the given image, keyed by look id.
+ * Rendered as background jobs so they never hold up the main preview.
+ */
+export const useLookThumbnails = (image: ProcessedImage | null | undefined, looks: FilterLook[]) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  const looksKey = JSON.stringify(looks.map(look => [look.id, look.filters]));
+  const transformKey = JSON.stringify(image?.transform);
+  // Looks graded with a LUT that loads (or goes away) later need rendering again
+  const lutsKey = useLoadedLutsKey({ layers: looks.flatMap(look => look.filters.layers) });
+
+  // The keys decide when to re-render; the latest image and looks are what gets rendered
+  const inputs = useRef({ image, looks });
+  inputs.current = { image, looks };
+
+  useEffect(() => {
+    const { image, looks } = inputs.current;
+    setThumbnails({});
+    if (!image || looks.length === 0) return;
+
+    const controller = new AbortController();
+    const urls: string[] = [];
+
+    looks.forEach((look) => {
+      renderProcessedImage(image, thumbnailFormat, look.filters, {
+        signal: controller.signal,
+        background: true,
+        maxDimension: THUMBNAIL_SIZE,
+        output: { type: 'image/jpeg', quality: 0.8 },
+      })
+        .then((result) => {
+          const url = URL.createObjectURL(result.blob);
+          urls.push(url);
+          setThumbnails(prev => ({ ...prev, [look.id]: url }));
+        })
+        .catch((error) => {
+          if (!isRenderCancelled(error)) console.error('Error rendering look thumbnail:', error);
+        });
+    });
+
+    return () => {
+      controller.abort();
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [image?.id, transformKey, looksKey, lutsKey]);
+
+  return thumbnails;
+};
@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ImagePlacement } from '../types';
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 10;
+const WHEEL_COMMIT_DELAY = 300;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface GestureStart {
+  placement: ImagePlacement;
+  centroid: Point;
+  distance: number;
+  rect: DOMRect;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const clampPlacement = (placement: ImagePlacement): ImagePlacement => ({
+  offsetX: clamp(placement.offsetX, -1, 1),
+  offsetY: clamp(placement.offsetY, -1, 1),
+  zoom: clamp(placement.zoom, MIN_ZOOM, MAX_ZOOM),
+});
+
+const getCentroid = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+const getDistance = (points: Point[]): number =>
+  points.length < 2 ? 0 : Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y);
+
+/**
+ * Drag, pinch and wheel handling for repositioning a photo inside its frame.
+ *
+ * While a gesture is in progress the rendered preview is moved with a CSS transform,
+ * and the new placement is only committed (and re-rendered) once the gesture ends.
+ */
+export const usePlacementGesture = (
+  placement: ImagePlacement,
+  onCommit: (placement: ImagePlacement) => void,
+  enabled = true
+) => {
+  const [pending, setPending] = useState<ImagePlacement | null>(null);
+  const pendingRef = useRef<ImagePlacement | null>(null);
+  const pointers = useRef(new Map<number, Point>());
+  const gestureStart = useRef<GestureStart | null>(null);
+  const wheelTimer = useRef<number>();
+  const elementRef = useRef<HTMLDivElement>(null);
+
+  const updatePending = useCallback((next: ImagePlacement | null) => {
+    pendingRef.current = next;
+    setPending(next);
+  }, []);
+
+  const commit = useCallback(() => {
+    if (pendingRef.current) {
+      onCommit(pendingRef.current);
+    }
+    updatePending(null);
+  }, [onCommit, updatePending]);
+
+  const startGesture = (element: HTMLElement) => {
+    const points = Array.from(pointers.current.values());
+    if (points.length === 0) {
+      gestureStart.current = null;
+      return;
+    }
+    gestureStart.current = {
+      placement: pendingRef.current ?? placement,
+      centroid: getCentroid(points),
+      distance: getDistance(points),
+      rect: element.getBoundingClientRect(),
+    };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!enabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    startGesture(e.currentTarget);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = gestureStart.current;
+    if (!start || !pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const points = Array.from(pointers.current.values());
+    const centroid = getCentroid(points);
+    const distance = getDistance(points);
+    const zoomFactor = start.distance > 0 && distance > 0 ? distance / start.distance : 1;
+
+    updatePending(clampPlacement({
+      offsetX: start.placement.offsetX + (centroid.x - start.centroid.x) / start.rect.width,
+      offsetY: start.placement.offsetY + (centroid.y - start.centroid.y) / start.rect.height,
+      zoom: start.placement.zoom * zoomFactor,
+    }));
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.delete(e.pointerId)) return;
+    if (pointers.current.size === 0) {
+      gestureStart.current = null;
+      commit();
+    } else {
+      // A finger lifted mid-pinch: continue as a drag from here
+      startGesture(e.currentTarget);
+    }
+  };
+
+  // Wheel zoom needs a non-passive listener so the page doesn't scroll
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element || !enabled) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const current = pendingRef.current ?? placement;
+      updatePending(clampPlacement({ ...current, zoom: current.zoom * Math.exp(-e.deltaY * 0.001) }));
+
+      window.clearTimeout(wheelTimer.current);
+      wheelTimer.current = window.setTimeout(commit, WHEEL_COMMIT_DELAY);
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      element.removeEventListener('wheel', handleWheel);
+      window.clearTimeout(wheelTimer.current);
+    };
+  }, [enabled, placement, commit, updatePending]);
+
+  // Approximate the pending placement on the already-rendered preview
+  const previewStyle: React.CSSProperties = pending
+    ? {
+        transformOrigin: `${50 + placement.offsetX * 100}% ${50 + placement.offsetY * 100}%`,
+        transform: `translate(${(pending.offsetX - placement.offsetX) * 100}%, ${(pending.offsetY - placement.offsetY) * 100}%) scale(${pending.zoom / placement.zoom})`,
+      }
+    : {};
+
+  const containerProps = enabled
+    ? {
+        ref: elementRef,
+        onPointerDown,
+        onPointerMove,
+        onPointerUp,
+        onPointerCancel: onPointerUp,
+        style: { touchAction: 'none' as const, cursor: pending ? 'grabbing' : 'grab' },
+      }
+    : { ref: elementRef };
+
+  return {
+    containerProps,
+    previewStyle,
+    isGesturing: pending !== null,
+  };
+};
+
+export const zoomPlacement = (placement: ImagePlacement, factor: number): ImagePlacement =>
+  clampPlacement({ ...placement, zoom: placement.zoom * factor });
@@ -0,0 +1,34 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Round up so small layout changes don't trigger a re-render
+const SIZE_STEP = 128;
+const DEFAULT_SIZE = 512;
+
+/**
+ * Longest edge, in device pixels, that a preview rendered into the element needs.
+ * Used to size the low-resolution proxy render to the card it's shown in.
+ */
+export const usePreviewSize = <T extends HTMLElement>() => {
+  const ref = useRef<T>(null);
+  const [size, setSize] = useState(DEFAULT_SIZE);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof ResizeObserver === 'undefined') return;
+
+    const measure = () => {
+      const rect = element.getBoundingClientRect();
+      const pixels = Math.max(rect.width, rect.height) * (window.devicePixelRatio || 1);
+      if (pixels > 0) {
+        setSize(Math.ceil(pixels / SIZE_STEP) * SIZE_STEP);
+      }
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return { ref, size };
+};
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import { FormatOptions, ProcessedImage, defaultFilters } from '../types';
+import { renderProcessedImage, isRenderCancelled } from '../utils/renderQueue';
+
+/**
+ * The "before" side of a comparison: the same frame, background, crop and placement
+ * as the preview, only without filters. Rendered only while `enabled`.
+ */
+export const useUnfilteredPreview = (
+  image: ProcessedImage | null | undefined,
+  formatOptions: FormatOptions,
+  enabled: boolean,
+  maxDimension: number
+) => {
+  const [url, setUrl] = useState('');
+  const urlRef = useRef('');
+
+  const formatKey = JSON.stringify(formatOptions);
+  const placementKey = JSON.stringify(image?.placement);
+  const transformKey = JSON.stringify(image?.transform);
+
+  // The keys decide when to re-render; the latest image and format are what gets rendered
+  const inputs = useRef({ image, formatOptions });
+  inputs.current = { image, formatOptions };
+
+  // Swap URLs only once the replacement is ready, so the comparison never flashes empty
+  const replaceUrl = (next: string) => {
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    urlRef.current = next;
+    setUrl(next);
+  };
+
+  useEffect(() => {
+    const { image, formatOptions } = inputs.current;
+    if (!enabled || !image) {
+      replaceUrl('');
+      return;
+    }
+
+    const controller = new AbortController();
+    renderProcessedImage(image, formatOptions, defaultFilters, {
+      signal: controller.signal,
+      maxDimension,
+    })
+      .then(result => replaceUrl(URL.createObjectURL(result.blob)))
+      .catch((error) => {
+        if (!isRenderCancelled(error)) console.error('Error rendering unfiltered preview:', error);
+      });
+
+    return () => controller.abort();
+  }, [enabled, image?.id, formatKey, placementKey, transformKey, maxDimension]);
+
+  useEffect(() => () => {
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+  }, []);
+
+  // A preview of another photo would compare the wrong thing
+  useEffect(() => {
+    replaceUrl('');
+  }, [image?.id]);
+
+  return url;
+};
@@ -2,46 +2,240 @@ export interface ProcessedImage {
   id: string;
   original: File;
   originalUrl: string;
-  processed?: string;
+  processed?: string; // preview-resolution render, exports are rendered separately
   canvas?: HTMLCanvasElement;
+  photoRect?: PhotoRect; // the photo's part of canvas, without the preset's padding
   filters: ImageFilters;
+  overrideFilters: boolean; // true when this image keeps its own filters instead of the global ones
+  placement: ImagePlacement;
+  transform: ImageTransform;
+  metadata?: ImageMetadata; // parsed in the background after upload
+}
+
+export interface GpsPosition {
+  latitude: number; // decimal degrees, negative for south
+  longitude: number; // decimal degrees, negative for west
+  altitude?: number; // meters, negative below sea level
+}
+
+// EXIF, IPTC and XMP fields read from the original file (JPEG sources, plus size and profile for PNG)
+export interface ImageMetadata {
+  orientation: number; // EXIF orientation 1-8, 1 = upright
+  width?: number; // stored pixel size, before orientation is applied
+  height?: number;
+  colorProfile?: string; // embedded ICC profile description, or the EXIF color space
+  make?: string;
+  model?: string;
+  lens?: string;
+  software?: string;
+  dateTimeOriginal?: string; // as stored in EXIF, "YYYY:MM:DD HH:MM:SS"
+  exposureTime?: number; // seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number; // mm
+  gps?: GpsPosition;
+  artist?: string;
+  copyright?: string;
+  description?: string;
+  keywords: string[];
+  iptc: Record<string, string>; // IPTC dataset name to value, repeated datasets joined with ", "
+  xmp?: string; // raw XMP packet
+}
+
+export type MetadataMode = 'strip' | 'keep' | 'select';
+
+export type MetadataField = 'camera' | 'exposure' | 'captureDate' | 'gps' | 'description' | 'authorship';
+
+export interface MetadataOptions {
+  mode: MetadataMode;
+  fields: MetadataField[]; // kept in 'select' mode
+  author: string; // team-wide, overrides the file's own author in 'select' mode
+  copyright: string;
+}
+
+export const metadataFields: { id: MetadataField; name: string; description: string }[] = [
+  { id: 'camera', name: 'Camera & lens', description: 'Make, model and lens' },
+  { id: 'exposure', name: 'Exposure', description: 'Shutter, aperture, ISO, focal length' },
+  { id: 'captureDate', name: 'Capture date', description: 'When the photo was taken' },
+  { id: 'gps', name: 'Location', description: 'GPS coordinates' },
+  { id: 'description', name: 'Caption & keywords', description: 'Description and keywords' },
+  { id: 'authorship', name: 'Author & copyright', description: "The file's own credit" },
+];
+
+// Where the photo sits inside the preset frame, independent of output resolution
+export interface ImagePlacement {
+  offsetX: number; // fraction of canvas width, 0 = centered
+  offsetY: number; // fraction of canvas height, 0 = centered
+  zoom: number; // multiplier on top of the fit mode scale
+}
+
+// Crop rectangle as fractions of the rotated, straightened photo
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where the photo landed in a render, in the render's pixels
+export interface PhotoRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Geometry edits applied to the photo before it is fitted into the preset
+export interface ImageTransform {
+  rotation: 0 | 90 | 180 | 270; // clockwise quarter turns
+  straighten: number; // -45 to 45 degrees, zoomed in to hide the corners
+  flipH: boolean;
+  flipV: boolean;
+  crop: CropRect | null; // null keeps the whole photo
+}
+
+// Value of one filter parameter; the filter registry declares which kind each parameter takes
+export type FilterParamValue = number | string | null | ToneCurves | LevelsAdjustment | HslAdjustments;
+
+export type FilterParams = Record<string, FilterParamValue>;
+
+// One step of an image's edits: a registered filter with its own settings
+export interface AdjustmentLayer {
+  id: string;
+  filter: string; // id of the filter in the registry
+  visible: boolean; // hidden layers are kept but skipped when rendering
+  params: FilterParams;
+  mask?: LayerMask; // limits the layer to part of the frame; the whole frame when omitted
+}
+
+export type MaskShape = 'radial' | 'linear';
+
+/**
+ * A feathered gradient a layer is blended through. Positions are 0-1 across and down the rendered frame,
+ * radii are 0-1 of its longer side so a circle stays round on any aspect ratio.
+ * A linear mask is a band through the centre, as wide as `radiusY` on either side and endless along its length.
+ */
+export interface LayerMask {
+  shape: MaskShape;
+  x: number; // centre
+  y: number;
+  radiusX: number; // radial only
+  radiusY: number;
+  angle: number; // -180 to 180 degrees, clockwise
+  feather: number; // 0-100, how much of the radius fades out
+  invert: boolean; // adjust outside the shape instead of inside
 }
 
 export interface ImageFilters {
-  // Basic filters
-  grayscale: number;
-  sepia: number;
-  brightness: number;
-  contrast: number;
-  
-  // Advanced filters
-  saturation: number;
+  layers: AdjustmentLayer[]; // applied first to last
+}
+
+// A curve control point, input to output, both 0-255
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+export interface ToneCurves {
+  master: CurvePoint[]; // applied to all three channels
+  red: CurvePoint[];
+  green: CurvePoint[];
+  blue: CurvePoint[];
+}
+
+export type CurveChannel = keyof ToneCurves;
+
+// A 3D color lookup table imported from a .cube file or HaldCLUT image
+export interface ColorLut {
+  id: string;
+  name: string;
+  size: number; // entries per axis
+  data: Float32Array; // size³ RGB triples in 0-1, red changing fastest, then green, then blue
+}
+
+export type HslRange = 'reds' | 'oranges' | 'yellows' | 'greens' | 'aquas' | 'blues' | 'purples' | 'magentas';
+
+// Shifts for one color range, each -100 to 100
+export interface HslAdjustment {
   hue: number;
-  blur: number;
-  sharpen: number;
-  vignette: number;
-  temperature: number;
-  
-  // Preset filters (0-100 intensity)
-  vintage: number;
-  drama: number;
-  clarify: number;
-  hdr: number;
-  lomo: number;
-  cross: number;
-  pinhole: number;
-  kodachrome: number;
-  technicolor: number;
-  polaroid: number;
+  saturation: number;
+  luminance: number;
+}
+
+export type HslAdjustments = Record<HslRange, HslAdjustment>;
+
+export interface LevelsAdjustment {
+  black: number; // input level mapped to 0
+  white: number; // input level mapped to 255
+  gamma: number; // midtone power, above 1 brightens
 }
 
+export type BackgroundMode = 'solid' | 'blur' | 'gradient' | 'image';
+
+export interface GradientStop {
+  color: string;
+  offset: number; // 0-100
+}
+
+export interface GradientOptions {
+  type: 'linear' | 'radial';
+  angle: number; // degrees, CSS convention (0 = to top), linear only
+  stops: GradientStop[];
+}
+
+export interface BackgroundImageOptions {
+  src: string; // data URL of the uploaded texture
+  name: string;
+  fit: 'tile' | 'stretch';
+}
+
+export interface BackgroundOptions {
+  mode: BackgroundMode;
+  blurRadius: number; // px, used by the blurred-image mode
+  dim: number; // 0-100, darkens the blurred fill
+  gradient: GradientOptions;
+  image?: BackgroundImageOptions;
+}
+
+// How the photo is scaled into the preset canvas
+export type FitMode = 'contain' | 'cover' | 'stretch' | 'none';
+
 export interface FormatOptions {
   backgroundColor: string;
+  background: BackgroundOptions;
+  fitMode: FitMode;
   size: number;
   aspectRatio: number; // width/height
   preset: FormatPreset;
 }
 
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  quality: number; // 1-100, ignored for PNG
+  keepTransparency: boolean; // only matters for the original preset, JPEG is always flattened
+  maxFileSizeKB: number; // 0 for no limit
+  allowDownscale: boolean; // shrink images that don't fit the limit at the lowest acceptable quality
+  metadata: MetadataOptions; // written to JPEG exports only
+}
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  name: string;
+  mimeType: string;
+  extension: string;
+  lossy: boolean;
+  transparency: boolean;
+}
+
+export const exportFormats: ExportFormatInfo[] = [
+  { id: 'png', name: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false, transparency: true },
+  { id: 'jpeg', name: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true, transparency: false },
+  { id: 'webp', name: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true, transparency: true },
+  { id: 'avif', name: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true, transparency: true },
+];
+
 export interface FormatPreset {
   id: string;
   name: string;
@@ -51,6 +245,10 @@ export interface FormatPreset {
   description: string;
   width: number;
   height: number;
+  fitMode?: FitMode; // default fit when the preset is selected, 'contain' if omitted
+  custom?: boolean; // created in the preset editor and stored locally
+  backgroundColor?: string; // default background applied when the preset is selected
+  background?: BackgroundOptions;
 }
 
 export const formatPresets: FormatPreset[] = [
@@ -152,6 +350,7 @@ export const formatPresets: FormatPreset[] = [
     description: '16:9 - YouTube thumbnails',
     width: 1280,
     height: 720,
+    fitMode: 'cover',
   },
   {
     id: 'youtube-shorts',
@@ -182,6 +381,7 @@ export const formatPresets: FormatPreset[] = [
     description: '3:1 - Twitter header',
     width: 1500,
     height: 500,
+    fitMode: 'cover',
   },
   {
     id: 'linkedin-post',
@@ -195,37 +395,102 @@ export const formatPresets: FormatPreset[] = [
   },
 ];
 
+// A named, saved combination of filter values
+export interface FilterLook {
+  id: string;
+  name: string;
+  filters: ImageFilters;
+}
+
+// The editable session: what undo/redo covers and what projects save
+export interface EditorState {
+  images: ProcessedImage[];
+  globalFilters: ImageFilters;
+  formatOptions: FormatOptions;
+}
+
+const identityCurve: CurvePoint[] = [
+  { x: 0, y: 0 },
+  { x: 255, y: 255 },
+];
+
+export const defaultCurves: ToneCurves = {
+  master: identityCurve,
+  red: identityCurve,
+  green: identityCurve,
+  blue: identityCurve,
+};
+
+export const defaultLevels: LevelsAdjustment = {
+  black: 0,
+  white: 255,
+  gamma: 1,
+};
+
+const neutralHsl: HslAdjustment = { hue: 0, saturation: 0, luminance: 0 };
+
+export const defaultHsl: HslAdjustments = {
+  reds: neutralHsl,
+  oranges: neutralHsl,
+  yellows: neutralHsl,
+  greens: neutralHsl,
+  aquas: neutralHsl,
+  blues: neutralHsl,
+  purples: neutralHsl,
+  magentas: neutralHsl,
+};
+
 export const defaultFilters: ImageFilters = {
-  // Basic filters
-  grayscale: 0,
-  sepia: 0,
-  brightness: 100,
-  contrast: 100,
-  
-  // Advanced filters
-  saturation: 100,
-  hue: 0,
-  blur: 0,
-  sharpen: 0,
-  vignette: 0,
-  temperature: 0,
-  
-  // Preset filters
-  vintage: 0,
-  drama: 0,
-  clarify: 0,
-  hdr: 0,
-  lomo: 0,
-  cross: 0,
-  pinhole: 0,
-  kodachrome: 0,
-  technicolor: 0,
-  polaroid: 0,
+  layers: [],
+};
+
+export const defaultPlacement: ImagePlacement = {
+  offsetX: 0,
+  offsetY: 0,
+  zoom: 1,
+};
+
+export const defaultTransform: ImageTransform = {
+  rotation: 0,
+  straighten: 0,
+  flipH: false,
+  flipV: false,
+  crop: null,
+};
+
+export const defaultBackgroundOptions: BackgroundOptions = {
+  mode: 'solid',
+  blurRadius: 40,
+  dim: 20,
+  gradient: {
+    type: 'linear',
+    angle: 135,
+    stops: [
+      { color: '#667eea', offset: 0 },
+      { color: '#764ba2', offset: 100 },
+    ],
+  },
 };
 
 export const defaultFormatOptions: FormatOptions = {
   backgroundColor: '#ffffff',
+  background: defaultBackgroundOptions,
+  fitMode: 'contain',
   size: 1080,
   aspectRatio: 1,
   preset: formatPresets[1], // Instagram Square as default
-}; 
\ No newline at end of file
+};
+
+export const defaultExportOptions: ExportOptions = {
+  format: 'png',
+  quality: 90,
+  keepTransparency: true,
+  maxFileSizeKB: 0,
+  allowDownscale: true,
+  metadata: {
+    mode: 'strip',
+    fields: ['camera', 'exposure', 'captureDate', 'description', 'authorship'],
+    author: '',
+    copyright: '',
+  },
+};
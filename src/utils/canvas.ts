@@ -0,0 +1,40 @@
+// Canvas helpers that work both on the main thread and inside a Web Worker
+
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+export type DrawableImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap | OffscreenCanvas;
+
+export const createCanvas = (width: number, height: number): RenderCanvas => {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const getContext2d = (canvas: RenderCanvas): RenderContext =>
+  (canvas as HTMLCanvasElement).getContext('2d')!;
+
+export const canvasToBlob = (canvas: RenderCanvas, type = 'image/png', quality?: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      type,
+      quality
+    );
+  });
+};
+
+// Copy a rendered bitmap into a regular canvas for display and download
+export const bitmapToCanvas = (bitmap: ImageBitmap): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  return canvas;
+};
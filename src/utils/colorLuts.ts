@@ -0,0 +1,247 @@
+import { ColorLut } from '../types';
+import { createCanvas, getContext2d } from './canvas';
+import { LUT_STORE, openDatabase, requestResult, transactionDone } from './database';
+
+const MIN_SIZE = 2;
+const MAX_SIZE = 128;
+
+export const createLutId = () => `lut-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const baseName = (filename: string) => filename.replace(/\.[^/.]+$/, '');
+
+/**
+ * Resample a table whose inputs span `domainMin`-`domainMax` per channel onto 0-1 inputs,
+ * trilinearly, with pixels outside the domain taking its edge. The output values are unchanged.
+ */
+const remapDomain = (table: Float32Array, size: number, domainMin: number[], domainMax: number[]): Float32Array => {
+  const max = size - 1;
+  const rowStride = size * 3;
+  const sliceStride = size * size * 3;
+  // Table coordinate, per channel, of each 0-1 input grid step
+  const coords = [0, 1, 2].map(c => Array.from({ length: size }, (_, index) =>
+    Math.max(0, Math.min(1, (index / max - domainMin[c]) / (domainMax[c] - domainMin[c]))) * max));
+
+  const data = new Float32Array(table.length);
+  for (let bi = 0; bi < size; bi++) {
+    for (let gi = 0; gi < size; gi++) {
+      for (let ri = 0; ri < size; ri++) {
+        const r = coords[0][ri];
+        const g = coords[1][gi];
+        const b = coords[2][bi];
+        const r0 = Math.min(Math.floor(r), max - 1);
+        const g0 = Math.min(Math.floor(g), max - 1);
+        const b0 = Math.min(Math.floor(b), max - 1);
+        const fr = r - r0;
+        const fg = g - g0;
+        const fb = b - b0;
+        const base = b0 * sliceStride + g0 * rowStride + r0 * 3;
+        const out = (bi * size * size + gi * size + ri) * 3;
+
+        for (let c = 0; c < 3; c++) {
+          const p = base + c;
+          const c00 = table[p] + (table[p + 3] - table[p]) * fr;
+          const c10 = table[p + rowStride] + (table[p + rowStride + 3] - table[p + rowStride]) * fr;
+          const c01 = table[p + sliceStride] + (table[p + sliceStride + 3] - table[p + sliceStride]) * fr;
+          const c11 = table[p + sliceStride + rowStride] + (table[p + sliceStride + rowStride + 3] - table[p + sliceStride + rowStride]) * fr;
+          const c0 = c00 + (c10 - c00) * fg;
+          const c1 = c01 + (c11 - c01) * fg;
+          data[out + c] = c0 + (c1 - c0) * fb;
+        }
+      }
+    }
+  }
+  return data;
+};
+
+/**
+ * Parse an Adobe/Resolve .cube file. Only 3D tables are supported. DOMAIN_MIN/MAX give the input
+ * range the table covers; other domains than 0-1 are resampled so the table always takes 0-1 input.
+ * Throws with a readable message when the file can't be used.
+ */
+export const parseCubeLut = (text: string, fallbackName: string): ColorLut => {
+  let title = '';
+  let size = 0;
+  let domainMin = [0, 0, 0];
+  let domainMax = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (keyword === 'TITLE') {
+      title = line.slice(5).trim().replace(/^"|"$/g, '');
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = parseInt(rest[0], 10);
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D LUTs are not supported, please export a 3D LUT.');
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = rest.map(Number);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = rest.map(Number);
+    } else if (/^[-+.\d]/.test(keyword)) {
+      const triple = [keyword, ...rest].slice(0, 3).map(Number);
+      if (triple.length !== 3 || triple.some(v => !Number.isFinite(v))) {
+        throw new Error(`Could not read the line "${line}".`);
+      }
+      values.push(...triple);
+    }
+    // Other keywords (e.g. LUT_3D_INPUT_RANGE from some tools) don't change the table
+  }
+
+  if (!Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE) {
+    throw new Error('The file has no valid LUT_3D_SIZE.');
+  }
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`Expected ${size * size * size} entries for a ${size}³ LUT but found ${values.length / 3}.`);
+  }
+
+  const isDomain = (domain: number[]) => domain.length === 3 && domain.every(Number.isFinite);
+  if (!isDomain(domainMin) || !isDomain(domainMax) || domainMin.some((min, c) => min >= domainMax[c])) {
+    throw new Error('DOMAIN_MIN and DOMAIN_MAX need three numbers each, with every minimum below its maximum.');
+  }
+
+  const table = new Float32Array(values);
+  const isUnitDomain = domainMin.every(min => min === 0) && domainMax.every(max => max === 1);
+  const data = isUnitDomain ? table : remapDomain(table, size, domainMin, domainMax);
+
+  return { id: createLutId(), name: title || fallbackName, size, data };
+};
+
+/**
+ * Read a HaldCLUT image: a square of level³ pixels holding a level²-sized cube,
+ * red changing fastest, the same order as .cube files.
+ */
+export const parseHaldClut = async (file: Blob, name: string): Promise<ColorLut> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { colorSpaceConversion: 'none', premultiplyAlpha: 'none' });
+  } catch {
+    throw new Error('The image could not be decoded.');
+  }
+
+  const { width, height } = bitmap;
+  const level = Math.round(Math.cbrt(width));
+  const size = level * level;
+  if (width !== height || level * level * level !== width || size < MIN_SIZE || size > MAX_SIZE) {
+    bitmap.close();
+    throw new Error(`A ${width}×${height} image is not a HaldCLUT, which is square with a cubed side (e.g. 512×512).`);
+  }
+
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2d(canvas);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+
+  const data = new Float32Array(size * size * size * 3);
+  for (let i = 0; i < size * size * size; i++) {
+    data[i * 3] = pixels[i * 4] / 255;
+    data[i * 3 + 1] = pixels[i * 4 + 1] / 255;
+    data[i * 3 + 2] = pixels[i * 4 + 2] / 255;
+  }
+  return { id: createLutId(), name, size, data };
+};
+
+export const readLutFile = async (file: File): Promise<ColorLut> => {
+  const name = baseName(file.name);
+  if (/\.cube$/i.test(file.name)) {
+    return parseCubeLut(await file.text(), name);
+  }
+  if (file.type === 'image/png' || /\.png$/i.test(file.name)) {
+    return parseHaldClut(file, name);
+  }
+  throw new Error('Choose a .cube file or a HaldCLUT PNG.');
+};
+
+// Imported LUTs, shared by the filter editor and the render queue
+
+let luts: ColorLut[] = [];
+const listeners = new Set<() => void>();
+
+const setLuts = (next: ColorLut[]) => {
+  luts = next;
+  listeners.forEach(listener => listener());
+};
+
+export const getColorLuts = (): ColorLut[] => luts;
+
+export const getColorLut = (id: string | null): ColorLut | null =>
+  id ? luts.find(lut => lut.id === id) ?? null : null;
+
+export const subscribeColorLuts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// A stored or unzipped value is only used when its table has the size it claims
+export const isColorLut = (value: unknown): value is ColorLut => {
+  if (typeof value !== 'object' || value === null) return false;
+  const lut = value as ColorLut;
+  return typeof lut.id === 'string' &&
+    typeof lut.name === 'string' &&
+    Number.isInteger(lut.size) && lut.size >= MIN_SIZE && lut.size <= MAX_SIZE &&
+    lut.data instanceof Float32Array &&
+    lut.data.length === lut.size ** 3 * 3;
+};
+
+// A LUT's table as little-endian floats, for storing it in a project file
+export const encodeLutData = (data: Float32Array): ArrayBuffer => {
+  const view = new DataView(new ArrayBuffer(data.length * 4));
+  data.forEach((value, index) => view.setFloat32(index * 4, value, true));
+  return view.buffer;
+};
+
+export const decodeLutData = (buffer: ArrayBuffer): Float32Array => {
+  const view = new DataView(buffer);
+  const data = new Float32Array(Math.floor(buffer.byteLength / 4));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = view.getFloat32(i * 4, true);
+  }
+  return data;
+};
+
+// Load the LUTs saved in earlier sessions
+export const loadColorLuts = async (): Promise<void> => {
+  const db = await openDatabase();
+  const stored: unknown[] = await requestResult(db.transaction(LUT_STORE, 'readonly').objectStore(LUT_STORE).getAll());
+  setLuts(stored.filter(isColorLut));
+};
+
+// Save LUTs that came with a project under their own ids, so its layers find them; ones already here are kept
+export const restoreColorLuts = async (incoming: ColorLut[]): Promise<void> => {
+  const added = incoming.filter(lut => isColorLut(lut) && !getColorLut(lut.id));
+  if (added.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(LUT_STORE, 'readwrite');
+  const store = transaction.objectStore(LUT_STORE);
+  added.forEach(lut => store.put(lut, lut.id));
+  await transactionDone(transaction);
+
+  setLuts([...luts, ...added]);
+};
+
+export const importColorLut = async (file: File): Promise<ColorLut> => {
+  const lut = await readLutFile(file);
+
+  const db = await openDatabase();
+  const transaction = db.transaction(LUT_STORE, 'readwrite');
+  transaction.objectStore(LUT_STORE).put(lut, lut.id);
+  await transactionDone(transaction);
+
+  setLuts([...luts, lut]);
+  return lut;
+};
+
+export const deleteColorLut = async (id: string): Promise<void> => {
+  setLuts(luts.filter(lut => lut.id !== id));
+
+  const db = await openDatabase();
+  const transaction = db.transaction(LUT_STORE, 'readwrite');
+  transaction.objectStore(LUT_STORE).delete(id);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,167 @@
+import {
+  BackgroundImageOptions,
+  BackgroundMode,
+  BackgroundOptions,
+  FitMode,
+  FormatPreset,
+  GradientOptions,
+  GradientStop,
+  defaultBackgroundOptions,
+} from '../types';
+
+const STORAGE_KEY = 'photosquare.customPresets';
+const FILE_VERSION = 1;
+const MAX_DIMENSION = 10000;
+
+const fitModes: FitMode[] = ['contain', 'cover', 'stretch', 'none'];
+const backgroundModes: BackgroundMode[] = ['solid', 'blur', 'gradient', 'image'];
+const gradientTypes: GradientOptions['type'][] = ['linear', 'radial'];
+const textureFits: BackgroundImageOptions['fit'][] = ['tile', 'stretch'];
+
+export const CUSTOM_PLATFORM = 'Custom';
+
+export const createPresetId = () => `custom-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Ratio presets are stored with their computed size, so rendering only ever sees width/height
+export const getPresetSize = (ratio: number, longEdge: number): { width: number; height: number } =>
+  ratio >= 1
+    ? { width: longEdge, height: Math.max(1, Math.round(longEdge / ratio)) }
+    : { width: Math.max(1, Math.round(longEdge * ratio)), height: longEdge };
+
+const isDimension = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= MAX_DIMENSION;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const toGradientStop = (value: unknown): GradientStop | null => {
+  if (!isObject(value) || typeof value.color !== 'string' || !isNumber(value.offset)) return null;
+  return { color: value.color, offset: clamp(value.offset, 0, 100) };
+};
+
+// A gradient needs two stops to draw
+const toGradient = (value: unknown): GradientOptions => {
+  const raw = isObject(value) ? value : {};
+  const stops = (Array.isArray(raw.stops) ? raw.stops : [])
+    .map(toGradientStop)
+    .filter((stop): stop is GradientStop => stop !== null);
+  const fallback = defaultBackgroundOptions.gradient;
+  return {
+    type: gradientTypes.includes(raw.type as GradientOptions['type']) ? (raw.type as GradientOptions['type']) : fallback.type,
+    angle: isNumber(raw.angle) ? raw.angle : fallback.angle,
+    stops: stops.length >= 2 ? stops : fallback.stops,
+  };
+};
+
+// Textures are only ever stored as image data URLs
+const toBackgroundImage = (value: unknown): BackgroundImageOptions | undefined => {
+  if (!isObject(value) || typeof value.src !== 'string' || !value.src.startsWith('data:image/')) return undefined;
+  return {
+    src: value.src,
+    name: typeof value.name === 'string' ? value.name : 'Texture',
+    fit: textureFits.includes(value.fit as BackgroundImageOptions['fit']) ? (value.fit as BackgroundImageOptions['fit']) : 'tile',
+  };
+};
+
+// Ranges match the background controls
+export const toBackground = (value: unknown): BackgroundOptions => {
+  const raw = isObject(value) ? value : {};
+  const image = toBackgroundImage(raw.image);
+  const mode = backgroundModes.includes(raw.mode as BackgroundMode) ? (raw.mode as BackgroundMode) : defaultBackgroundOptions.mode;
+  return {
+    mode: mode === 'image' && !image ? defaultBackgroundOptions.mode : mode,
+    blurRadius: isNumber(raw.blurRadius) ? clamp(raw.blurRadius, 0, 100) : defaultBackgroundOptions.blurRadius,
+    dim: isNumber(raw.dim) ? clamp(raw.dim, 0, 80) : defaultBackgroundOptions.dim,
+    gradient: toGradient(raw.gradient),
+    ...(image && { image }),
+  };
+};
+
+// Rebuild a preset from untrusted JSON, keeping only fields we understand; shared with project files
+export const toCustomPreset = (value: unknown): FormatPreset | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.name !== 'string' || !raw.name.trim() || !isDimension(raw.width) || !isDimension(raw.height)) {
+    return null;
+  }
+
+  return {
+    id: typeof raw.id === 'string' && raw.id.startsWith('custom-') ? raw.id : createPresetId(),
+    name: raw.name.trim(),
+    platform: typeof raw.platform === 'string' && raw.platform.trim() ? raw.platform.trim() : CUSTOM_PLATFORM,
+    aspectRatio: raw.width / raw.height,
+    icon: typeof raw.icon === 'string' && raw.icon ? raw.icon : '⭐',
+    description: typeof raw.description === 'string' ? raw.description : `${raw.width}×${raw.height}`,
+    width: raw.width,
+    height: raw.height,
+    fitMode: fitModes.includes(raw.fitMode as FitMode) ? (raw.fitMode as FitMode) : undefined,
+    custom: true,
+    backgroundColor: typeof raw.backgroundColor === 'string' ? raw.backgroundColor : undefined,
+    background: raw.background !== undefined ? toBackground(raw.background) : undefined,
+  };
+};
+
+export const loadCustomPresets = (): FormatPreset[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.map(toCustomPreset).filter((p): p is FormatPreset => p !== null) : [];
+  } catch (error) {
+    console.error('Error loading custom presets:', error);
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: FormatPreset[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    // Usually the quota, e.g. a large background texture
+    console.error('Error saving custom presets:', error);
+    alert('Could not save presets. A background image may be too large to store.');
+  }
+};
+
+export const serializeCustomPresets = (presets: FormatPreset[]): string =>
+  JSON.stringify({ version: FILE_VERSION, presets }, null, 2);
+
+/**
+ * Parse a shared presets file. Accepts the exported { version, presets } shape or a bare array.
+ * Throws when nothing usable is found.
+ */
+export const parseCustomPresets = (text: string): FormatPreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { presets?: unknown })?.presets;
+  if (!Array.isArray(list)) {
+    throw new Error('The file does not contain any presets.');
+  }
+
+  const presets = list.map(toCustomPreset).filter((p): p is FormatPreset => p !== null);
+  if (presets.length === 0) {
+    throw new Error('None of the presets in the file have a name and a valid width and height.');
+  }
+  return presets;
+};
+
+// Imported presets replace existing ones with the same id and are added otherwise
+export const mergeCustomPresets = (existing: FormatPreset[], imported: FormatPreset[]): FormatPreset[] => {
+  const importedIds = new Set(imported.map(preset => preset.id));
+  return [...existing.filter(preset => !importedIds.has(preset.id)), ...imported];
+};
+
+export const upsertCustomPreset = (presets: FormatPreset[], preset: FormatPreset): FormatPreset[] =>
+  presets.some(p => p.id === preset.id)
+    ? presets.map(p => (p.id === preset.id ? preset : p))
+    : [...presets, preset];
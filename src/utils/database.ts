@@ -0,0 +1,42 @@
+// The app's IndexedDB database, shared by the saved session and imported LUTs
+const DB_NAME = 'photosquare';
+const DB_VERSION = 2;
+
+export const SESSION_STORE = 'session';
+export const FILE_STORE = 'files';
+export const LUT_STORE = 'luts';
+
+const STORES = [SESSION_STORE, FILE_STORE, LUT_STORE];
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    // Add whichever stores this browser's copy doesn't have yet
+    request.onupgradeneeded = () => {
+      STORES.forEach((name) => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name);
+        }
+      });
+    };
+    database = requestResult(request);
+    // Let a later call retry, e.g. after private browsing blocked the first attempt
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
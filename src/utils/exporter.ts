@@ -0,0 +1,231 @@
+import JSZip from 'jszip';
+import { ExportFormat, ExportFormatInfo, ExportOptions, FormatOptions, FormatPreset, ProcessedImage, exportFormats } from '../types';
+import { RenderRequest, RenderResult } from '../workers/renderProtocol';
+import { renderProcessedImage, RenderJobOptions } from './renderQueue';
+import { buildMetadataSegments, injectMetadata } from './metadataWriter';
+import { flattenCanvas } from './renderJob';
+import { encodeWithinBudget } from './sizeBudget';
+import { RenderCanvas } from './canvas';
+
+export interface ExportedFile {
+  filename: string;
+  size: number;
+  width: number;
+  height: number;
+  quality?: number; // 0-1, for lossy formats
+  withinLimit: boolean;
+}
+
+export const getExportFormat = (format: ExportFormat): ExportFormatInfo =>
+  exportFormats.find(f => f.id === format) ?? exportFormats[0];
+
+// Browsers silently fall back to PNG for encoders they don't have
+const encoderSupport = new Map<ExportFormat, boolean>();
+
+export const isExportFormatSupported = (format: ExportFormat): boolean => {
+  let supported = encoderSupport.get(format);
+  if (supported === undefined) {
+    const { mimeType } = getExportFormat(format);
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    supported = canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+    encoderSupport.set(format, supported);
+  }
+  return supported;
+};
+
+// Encoder settings for a render, flattening transparency when it can't or shouldn't be kept
+export const getExportOutput = (exportOptions: ExportOptions, formatOptions: FormatOptions): RenderRequest['output'] => {
+  const format = getExportFormat(exportOptions.format);
+  // Padded presets always paint a background, so only the original preset can be transparent
+  const flatten = formatOptions.preset.id === 'original' && (!format.transparency || !exportOptions.keepTransparency);
+  return {
+    type: format.mimeType,
+    quality: format.lossy ? exportOptions.quality / 100 : undefined,
+    background: flatten ? formatOptions.backgroundColor : undefined,
+    maxBytes: exportOptions.maxFileSizeKB > 0 ? exportOptions.maxFileSizeKB * 1024 : undefined,
+    allowDownscale: exportOptions.allowDownscale,
+  };
+};
+
+// Name the file after what was actually encoded, in case the browser fell back to PNG
+export const getExportFilename = (baseName: string, blob: Blob): string => {
+  const format = exportFormats.find(f => f.mimeType === blob.type) ?? exportFormats[0];
+  return `${baseName}.${format.extension}`;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Render one image at full resolution with the export settings, fitting any size limit
+export const exportImage = async (
+  image: ProcessedImage,
+  formatOptions: FormatOptions,
+  exportOptions: ExportOptions,
+  filters = image.filters,
+  jobOptions: RenderJobOptions = {}
+): Promise<RenderResult> => {
+  const output = getExportOutput(exportOptions, formatOptions);
+  // Canvas encoders drop all metadata, so it's written back into JPEG files afterwards
+  const segments = output.type === 'image/jpeg'
+    ? await buildMetadataSegments(image.original, exportOptions.metadata, image.metadata)
+    : [];
+  const metadataBytes = segments.reduce((sum, segment) => sum + segment.length, 0);
+
+  const result = await renderProcessedImage(image, formatOptions, filters, {
+    ...jobOptions,
+    // Leave room for the metadata inside the size limit
+    output: output.maxBytes ? { ...output, maxBytes: Math.max(1024, output.maxBytes - metadataBytes) } : output,
+  });
+  if (segments.length === 0 || result.blob.type !== 'image/jpeg') return result;
+
+  const blob = await injectMetadata(result.blob, segments);
+  return {
+    ...result,
+    blob,
+    withinLimit: result.withinLimit && (!output.maxBytes || blob.size <= output.maxBytes),
+  };
+};
+
+/**
+ * Predict an export's file from a preview render instead of rendering it at full size.
+ * The preview is encoded the same way, and bytes are scaled up by the pixel count, so a
+ * size limit is searched against a budget scaled down the same way.
+ */
+export const estimateExport = async (
+  image: ProcessedImage,
+  preview: RenderCanvas,
+  previewScale: number, // preview pixels per full-resolution pixel
+  formatOptions: FormatOptions,
+  exportOptions: ExportOptions
+): Promise<ExportedFile> => {
+  const output = getExportOutput(exportOptions, formatOptions);
+  const segments = output.type === 'image/jpeg'
+    ? await buildMetadataSegments(image.original, exportOptions.metadata, image.metadata)
+    : [];
+  const metadataBytes = segments.reduce((sum, segment) => sum + segment.length, 0);
+
+  const pixelRatio = previewScale * previewScale;
+  const encoded = await encodeWithinBudget(
+    flattenCanvas(preview, output.background),
+    { ...output, maxBytes: output.maxBytes && Math.max(1024, output.maxBytes - metadataBytes) * pixelRatio },
+    async () => {}
+  );
+  const size = Math.round(encoded.blob.size / pixelRatio) + metadataBytes;
+  return {
+    filename: '',
+    size,
+    width: Math.round(encoded.width / previewScale),
+    height: Math.round(encoded.height / previewScale),
+    quality: encoded.quality,
+    withinLimit: encoded.withinLimit && (!output.maxBytes || size <= output.maxBytes),
+  };
+};
+
+export const describeExport = (filename: string, result: RenderResult): ExportedFile => ({
+  filename,
+  size: result.blob.size,
+  width: result.width,
+  height: result.height,
+  quality: result.quality,
+  withinLimit: result.withinLimit,
+});
+
+// Format options for rendering with another preset, keeping the background but using the preset's own fit
+export const withPreset = (formatOptions: FormatOptions, preset: FormatPreset): FormatOptions =>
+  preset.id === formatOptions.preset.id
+    ? formatOptions
+    : { ...formatOptions, preset, aspectRatio: preset.aspectRatio, fitMode: preset.fitMode ?? 'contain' };
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'preset';
+
+// Folder names for a multi-preset ZIP, e.g. "instagram-story", unique within the export
+export const getPresetFolderNames = (presets: FormatPreset[]): string[] => {
+  const used = new Set<string>();
+  return presets.map((preset) => {
+    const base = preset.custom ? slugify(`${preset.platform ?? ''} ${preset.name}`) : preset.id;
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}-${n}`;
+    used.add(name);
+    return name;
+  });
+};
+
+/**
+ * Render every image at full quality for each preset and bundle them into one ZIP,
+ * with a folder per preset. Filters and background are shared; each preset uses its own fit.
+ */
+export const exportPresetsAsZip = async (
+  images: ProcessedImage[],
+  formatOptions: FormatOptions,
+  presets: FormatPreset[],
+  exportOptions: ExportOptions,
+  getBaseName: (image: ProcessedImage) => string,
+  onProgress?: (completed: number, total: number) => void
+): Promise<{ zip: Blob; files: ExportedFile[] }> => {
+  const zip = new JSZip();
+  const folders = getPresetFolderNames(presets);
+  const total = images.length * presets.length;
+  let completed = 0;
+  onProgress?.(0, total);
+
+  const files = await Promise.all(
+    presets.flatMap((preset, index) => {
+      const options = withPreset(formatOptions, preset);
+      return images.map(async (image) => {
+        const result = await exportImage(image, options, exportOptions);
+        const filename = `${folders[index]}/${getExportFilename(getBaseName(image), result.blob)}`;
+        zip.file(filename, result.blob);
+        completed++;
+        onProgress?.(completed, total);
+        return describeExport(filename, result);
+      });
+    })
+  );
+
+  return { zip: await zip.generateAsync({ type: 'blob' }), files };
+};
+
+/**
+ * Render every image at full quality through the worker pool and bundle them into a ZIP.
+ * getBaseName returns the file name without an extension; progress reports finished renders.
+ */
+export const exportImagesAsZip = async (
+  images: ProcessedImage[],
+  formatOptions: FormatOptions,
+  exportOptions: ExportOptions,
+  getBaseName: (image: ProcessedImage) => string,
+  onProgress?: (completed: number, total: number) => void
+): Promise<{ zip: Blob; files: ExportedFile[] }> => {
+  const zip = new JSZip();
+  let completed = 0;
+  onProgress?.(0, images.length);
+
+  const files = await Promise.all(
+    images.map(async (image) => {
+      const result = await exportImage(image, formatOptions, exportOptions);
+      const filename = getExportFilename(getBaseName(image), result.blob);
+      zip.file(filename, result.blob);
+      completed++;
+      onProgress?.(completed, images.length);
+      return describeExport(filename, result);
+    })
+  );
+
+  return { zip: await zip.generateAsync({ type: 'blob' }), files };
+};
@@ -0,0 +1,76 @@
+// @ts-ignore - heic2any doesn't have TypeScript types
+import heic2any from 'heic2any';
+import { DrawableImage } from './canvas';
+import { applyOrientation } from './imageProcessor';
+import { normalizeOrientation } from './metadata';
+
+export const convertHeicToJpeg = async (file: File): Promise<Blob> => {
+  try {
+    const result = await heic2any({
+      blob: file,
+      toType: 'image/jpeg',
+      quality: 0.9
+    });
+    
+    // heic2any can return Blob or Blob[], we need a single Blob
+    return Array.isArray(result) ? result[0] : result;
+  } catch (error) {
+    console.error('Error converting HEIC file:', error);
+    throw new Error('Failed to convert HEIC file. Please try a different format.');
+  }
+};
+
+export const isHeicFile = (file: File): boolean => {
+  const heicMimeTypes = [
+    'image/heic',
+    'image/heif',
+    'image/heic-sequence',
+    'image/heif-sequence'
+  ];
+  
+  const heicExtensions = ['.heic', '.heif', '.hif'];
+  const fileName = file.name.toLowerCase();
+  
+  return heicMimeTypes.includes(file.type) || 
+         heicExtensions.some(ext => fileName.endsWith(ext));
+};
+
+// Browsers can't decode HEIC, so convert once and reuse the JPEG for every render
+export interface RenderableSource {
+  blob: Blob; // decodable everywhere, with any EXIF orientation reset to upright
+  orientation: number; // EXIF orientation the pixels still need, 1 = upright
+}
+
+const renderableSourceCache = new WeakMap<File, Promise<RenderableSource>>();
+
+export const getRenderableSource = (file: File): Promise<RenderableSource> => {
+  let cached = renderableSourceCache.get(file);
+  if (!cached) {
+    const decodable = isHeicFile(file) ? convertHeicToJpeg(file) : Promise.resolve(file);
+    // Take orientation out of the browser's hands so every decoder draws the same pixels
+    cached = decodable.then(normalizeOrientation);
+    cached.catch(() => renderableSourceCache.delete(file));
+    renderableSourceCache.set(file, cached);
+  }
+  return cached;
+};
+
+export const loadImageFromFile = async (file: File): Promise<DrawableImage> => {
+  const { blob, orientation } = await getRenderableSource(file);
+
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      // Clean up the object URL
+      URL.revokeObjectURL(image.src);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(image.src);
+      reject(new Error('Failed to load image'));
+    };
+    image.src = URL.createObjectURL(blob);
+  });
+
+  return applyOrientation(img, orientation);
+};
@@ -0,0 +1,550 @@
+import { ColorLut, HslAdjustments, LevelsAdjustment, ToneCurves } from '../types';
+import { createCurveLuts, isDefaultLevels, sampleLevels } from './toneCurves';
+import { createHslTable, hslToRgb, rgbToHsl } from './hslMixer';
+
+// Pixel kernels for the registered filters. Each one edits RGBA data in place.
+
+const clamp255 = (value: number) => Math.max(0, Math.min(255, value));
+
+// Basic adjustments
+
+const toLinear = (value: number) => {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const toSrgb = (linear: number) => {
+  const v = linear <= 0.0031308 ? linear * 12.92 : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+  return clamp255(v * 255);
+};
+
+// Scales the light itself, so each stop doubles or halves it like a longer or shorter shutter
+export const applyExposure = (data: Uint8ClampedArray, stops: number): void => {
+  const factor = Math.pow(2, stops);
+  const table = new Uint8ClampedArray(256);
+  for (let value = 0; value < 256; value++) {
+    table[value] = toSrgb(toLinear(value) * factor);
+  }
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = table[data[i]];
+    data[i + 1] = table[data[i + 1]];
+    data[i + 2] = table[data[i + 2]];
+  }
+};
+
+// One pixel's r, g, b as unclamped floats; point adjustments edit it in place
+export type PixelTransform = (rgb: number[]) => void;
+
+// Run point adjustments back to back on every pixel, rounding and clamping only once at the end
+export const applyPixelTransforms = (data: Uint8ClampedArray, transforms: PixelTransform[]): void => {
+  const rgb = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    rgb[0] = data[i];
+    rgb[1] = data[i + 1];
+    rgb[2] = data[i + 2];
+    for (const transform of transforms) transform(rgb);
+    data[i] = rgb[0];
+    data[i + 1] = rgb[1];
+    data[i + 2] = rgb[2];
+  }
+};
+
+export const brightnessPixel = (factor: number): PixelTransform => (rgb) => {
+  rgb[0] *= factor;
+  rgb[1] *= factor;
+  rgb[2] *= factor;
+};
+
+// `contrast` is the 0-200 slider value fed straight into the classic contrast formula, as it always was:
+// 0 leaves the image unchanged and 100 is a ~2.3x stretch, which only looks neutral because the filter skips it
+export const contrastPixel = (contrast: number): PixelTransform => {
+  const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+  return (rgb) => {
+    rgb[0] = factor * (rgb[0] - 128) + 128;
+    rgb[1] = factor * (rgb[1] - 128) + 128;
+    rgb[2] = factor * (rgb[2] - 128) + 128;
+  };
+};
+
+export const saturationPixel = (factor: number): PixelTransform => (rgb) => {
+  const gray = 0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2];
+  rgb[0] = gray + factor * (rgb[0] - gray);
+  rgb[1] = gray + factor * (rgb[1] - gray);
+  rgb[2] = gray + factor * (rgb[2] - gray);
+};
+
+// -1 (cool) to 1 (warm)
+export const temperaturePixel = (temperature: number): PixelTransform => (rgb) => {
+  rgb[0] += temperature * 30;
+  rgb[2] -= temperature * 30;
+};
+
+const hueShift = ([r, g, b]: [number, number, number], angle: number): [number, number, number] => {
+  // RGB to HSV and back with hue shift
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+
+  if (delta === 0) return [r, g, b];
+
+  const saturation = max === 0 ? 0 : delta / max;
+  const value = max;
+
+  let hue = 0;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+
+  hue = (hue * 60 + angle) % 360;
+  if (hue < 0) hue += 360;
+
+  const c = value * saturation;
+  const x = c * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = value - c;
+
+  let nr = 0, ng = 0, nb = 0;
+
+  if (hue < 60) [nr, ng, nb] = [c, x, 0];
+  else if (hue < 120) [nr, ng, nb] = [x, c, 0];
+  else if (hue < 180) [nr, ng, nb] = [0, c, x];
+  else if (hue < 240) [nr, ng, nb] = [0, x, c];
+  else if (hue < 300) [nr, ng, nb] = [x, 0, c];
+  else [nr, ng, nb] = [c, 0, x];
+
+  return [(nr + m) * 255, (ng + m) * 255, (nb + m) * 255];
+};
+
+export const hueShiftPixel = (angle: number): PixelTransform => (rgb) => {
+  const [r, g, b] = hueShift([rgb[0], rgb[1], rgb[2]], angle);
+  rgb[0] = r;
+  rgb[1] = g;
+  rgb[2] = b;
+};
+
+export const grayscalePixel = (intensity: number): PixelTransform => (rgb) => {
+  const gray = 0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2];
+  rgb[0] = rgb[0] * (1 - intensity) + gray * intensity;
+  rgb[1] = rgb[1] * (1 - intensity) + gray * intensity;
+  rgb[2] = rgb[2] * (1 - intensity) + gray * intensity;
+};
+
+export const sepiaPixel = (intensity: number): PixelTransform => (rgb) => {
+  const [r, g, b] = rgb;
+  const tr = 0.393 * r + 0.769 * g + 0.189 * b;
+  const tg = 0.349 * r + 0.686 * g + 0.168 * b;
+  const tb = 0.272 * r + 0.534 * g + 0.131 * b;
+  rgb[0] = r * (1 - intensity) + tr * intensity;
+  rgb[1] = g * (1 - intensity) + tg * intensity;
+  rgb[2] = b * (1 - intensity) + tb * intensity;
+};
+
+// Tone and color
+
+export const applyHslMixer = (data: Uint8ClampedArray, hsl: HslAdjustments): void => {
+  const table = createHslTable(hsl);
+  if (!table) return;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const [h, s, l] = rgbToHsl(data[i], data[i + 1], data[i + 2]);
+    if (s === 0) continue;
+
+    const k = Math.floor(h) % 360 * 3;
+    const luminance = table[k + 2];
+    // Near-grays have barely any hue, so they only feel a fraction of the shift
+    const newH = h + table[k] * s;
+    const newS = Math.max(0, Math.min(1, s * (1 + table[k + 1])));
+    const newL = luminance > 0
+      ? l + (1 - l) * luminance * s * 0.5
+      : l + l * luminance * s * 0.5;
+
+    const [r, g, b] = hslToRgb(newH, newS, newL);
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+};
+
+export const applyLevels = (data: Uint8ClampedArray, levels: LevelsAdjustment): void => {
+  if (isDefaultLevels(levels)) return;
+
+  const lut = sampleLevels(levels);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+};
+
+// The master curve and each channel's own curve collapse into one lookup per channel
+export const applyCurves = (data: Uint8ClampedArray, curves: ToneCurves): void => {
+  const luts = createCurveLuts(curves);
+  if (!luts) return;
+
+  const [red, green, blue] = luts;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = red[data[i]];
+    data[i + 1] = green[data[i + 1]];
+    data[i + 2] = blue[data[i + 2]];
+  }
+};
+
+// Trilinear interpolation between the eight table entries surrounding each color
+export const applyColorLut = (data: Uint8ClampedArray, lut: ColorLut, intensity: number): void => {
+  const { size, data: table } = lut;
+  const max = size - 1;
+  const scale = max / 255;
+  const rowStride = size * 3;
+  const sliceStride = size * size * 3;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] * scale;
+    const g = data[i + 1] * scale;
+    const b = data[i + 2] * scale;
+    const r0 = Math.floor(r);
+    const g0 = Math.floor(g);
+    const b0 = Math.floor(b);
+    const fr = r - r0;
+    const fg = g - g0;
+    const fb = b - b0;
+    const dr = r0 < max ? 3 : 0;
+    const dg = g0 < max ? rowStride : 0;
+    const db = b0 < max ? sliceStride : 0;
+    const base = b0 * sliceStride + g0 * rowStride + r0 * 3;
+
+    for (let c = 0; c < 3; c++) {
+      const p = base + c;
+      const c00 = table[p] + (table[p + dr] - table[p]) * fr;
+      const c10 = table[p + dg] + (table[p + dg + dr] - table[p + dg]) * fr;
+      const c01 = table[p + db] + (table[p + db + dr] - table[p + db]) * fr;
+      const c11 = table[p + db + dg] + (table[p + db + dg + dr] - table[p + db + dg]) * fr;
+      const c0 = c00 + (c10 - c00) * fg;
+      const c1 = c01 + (c11 - c01) * fg;
+      const graded = (c0 + (c1 - c0) * fb) * 255;
+      data[i + c] = data[i + c] + (graded - data[i + c]) * intensity;
+    }
+  }
+};
+
+// Film looks
+
+export const applyVintage = (data: Uint8ClampedArray, intensity: number): void => {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    // Vintage color grading
+    const newR = r * (1 + 0.3 * intensity) - g * 0.1 * intensity;
+    const newG = g * (1 + 0.1 * intensity) - b * 0.05 * intensity;
+    const newB = b * (1 - 0.2 * intensity) + r * 0.1 * intensity;
+
+    data[i] = clamp255(newR);
+    data[i + 1] = clamp255(newG);
+    data[i + 2] = clamp255(newB);
+  }
+};
+
+export const applyDrama = (data: Uint8ClampedArray, intensity: number): void => {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    // High contrast with color enhancement
+    const factor = 1 + intensity * 0.5;
+    const contrast = 1 + intensity * 0.3;
+
+    data[i] = clamp255(((r - 128) * contrast + 128) * factor);
+    data[i + 1] = clamp255(((g - 128) * contrast + 128) * factor);
+    data[i + 2] = clamp255(((b - 128) * contrast + 128) * factor);
+  }
+};
+
+export const applyLomo = (data: Uint8ClampedArray, width: number, height: number, intensity: number): void => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const maxDistance = Math.sqrt(centerX * centerX + centerY * centerY);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const distance = Math.sqrt((x - centerX) ** 2 + (y - centerY) ** 2);
+      const vignette = 1 - (distance / maxDistance) * intensity * 0.7;
+
+      // Lomo color shift
+      data[i] = clamp255(data[i] * (1 + intensity * 0.2) * vignette);
+      data[i + 1] = clamp255(data[i + 1] * (1 - intensity * 0.1) * vignette);
+      data[i + 2] = clamp255(data[i + 2] * (1 - intensity * 0.3) * vignette);
+    }
+  }
+};
+
+export const applyCrossProcess = (data: Uint8ClampedArray, intensity: number): void => {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    // Cross processing color shifts
+    const newR = r * (1 + intensity * 0.4) - g * intensity * 0.2;
+    const newG = g * (1 - intensity * 0.1) + r * intensity * 0.1;
+    const newB = b * (1 + intensity * 0.3) - r * intensity * 0.1;
+
+    data[i] = clamp255(newR);
+    data[i + 1] = clamp255(newG);
+    data[i + 2] = clamp255(newB);
+  }
+};
+
+export const applyPinhole = (data: Uint8ClampedArray, width: number, height: number, intensity: number): void => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const maxDistance = Math.sqrt(centerX * centerX + centerY * centerY);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const distance = Math.sqrt((x - centerX) ** 2 + (y - centerY) ** 2);
+      const darkening = Math.pow(distance / maxDistance, 2) * intensity;
+
+      data[i] = Math.max(0, data[i] * (1 - darkening));
+      data[i + 1] = Math.max(0, data[i + 1] * (1 - darkening));
+      data[i + 2] = Math.max(0, data[i + 2] * (1 - darkening));
+    }
+  }
+};
+
+export const applyKodachrome = (data: Uint8ClampedArray, intensity: number): void => {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    // Kodachrome look - warm highlights, cool shadows
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    const factor = luminance / 255;
+
+    data[i] = clamp255(r + intensity * 20 * factor);
+    data[i + 1] = clamp255(g + intensity * 10 * factor);
+    data[i + 2] = clamp255(b - intensity * 15 * (1 - factor));
+  }
+};
+
+export const applyTechnicolor = (data: Uint8ClampedArray, intensity: number): void => {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    // Technicolor look - enhanced saturation and contrast
+    const newR = r * (1 + intensity * 0.3) + g * intensity * 0.1;
+    const newG = g * (1 + intensity * 0.2) - r * intensity * 0.05;
+    const newB = b * (1 + intensity * 0.4) - g * intensity * 0.1;
+
+    data[i] = clamp255(newR);
+    data[i + 1] = clamp255(newG);
+    data[i + 2] = clamp255(newB);
+  }
+};
+
+export const applyPolaroid = (data: Uint8ClampedArray, intensity: number): void => {
+  for (let i = 0; i < data.length; i += 4) {
+    // Polaroid look - slight cyan/yellow cast
+    data[i] = clamp255(data[i] + intensity * 15);
+    data[i + 1] = clamp255(data[i + 1] + intensity * 10);
+    data[i + 2] = clamp255(data[i + 2] - intensity * 10);
+  }
+};
+
+// Effects
+
+export const applyVignette = (data: Uint8ClampedArray, width: number, height: number, intensity: number): void => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const maxDistance = Math.sqrt(centerX * centerX + centerY * centerY);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const distance = Math.sqrt((x - centerX) ** 2 + (y - centerY) ** 2);
+      const vignette = 1 - (distance / maxDistance) * intensity;
+
+      data[i] *= vignette;
+      data[i + 1] *= vignette;
+      data[i + 2] *= vignette;
+    }
+  }
+};
+
+export const applyHDR = (data: Uint8ClampedArray, intensity: number): void => {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    // HDR tone mapping
+    const factor = 1 + intensity * 0.5;
+    data[i] = clamp255(Math.pow(r / 255, factor) * 255);
+    data[i + 1] = clamp255(Math.pow(g / 255, factor) * 255);
+    data[i + 2] = clamp255(Math.pow(b / 255, factor) * 255);
+  }
+};
+
+// `minRadius` is the smallest blur in canvas pixels, scaled down for previews
+export const applyClarify = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  intensity: number,
+  minRadius: number
+): void => {
+  // Large-radius unsharp mask on luminance, weighted towards the midtones
+  const pixelCount = width * height;
+  const luminance = new Float32Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * 4;
+    luminance[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+
+  const radius = Math.max(minRadius, Math.max(width, height) * 0.02);
+  const blurred = gaussianBlurChannel(luminance, width, height, radius);
+  const amount = intensity * 0.8;
+
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * 4;
+    const tone = luminance[p] / 255;
+    // 1 at mid-grey, falling to 0 at pure black and white
+    const midtoneWeight = 1 - Math.pow(2 * tone - 1, 2);
+    const detail = (luminance[p] - blurred[p]) * amount * midtoneWeight;
+
+    data[i] = clamp255(data[i] + detail);
+    data[i + 1] = clamp255(data[i + 1] + detail);
+    data[i + 2] = clamp255(data[i + 2] + detail);
+  }
+};
+
+export const applySharpen = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  intensity: number,
+  radius: number,
+  threshold: number
+): void => {
+  // Classic unsharp mask: add back the difference from a blurred copy
+  const pixelCount = width * height;
+  const amount = intensity * 2;
+
+  for (let c = 0; c < 3; c++) {
+    const channel = new Float32Array(pixelCount);
+    for (let p = 0; p < pixelCount; p++) {
+      channel[p] = data[p * 4 + c];
+    }
+
+    const blurred = gaussianBlurChannel(channel, width, height, radius);
+
+    for (let p = 0; p < pixelCount; p++) {
+      const diff = channel[p] - blurred[p];
+      // Leave low-contrast areas (noise, skin) untouched
+      if (Math.abs(diff) < threshold) continue;
+      data[p * 4 + c] = clamp255(channel[p] + diff * amount);
+    }
+  }
+};
+
+// Gaussian blur of every channel, alpha included; `sigma` in canvas pixels like CSS blur()
+export const applyBlur = (data: Uint8ClampedArray, width: number, height: number, sigma: number): void => {
+  const pixelCount = width * height;
+  for (let c = 0; c < 4; c++) {
+    const channel = new Float32Array(pixelCount);
+    for (let p = 0; p < pixelCount; p++) {
+      channel[p] = data[p * 4 + c];
+    }
+
+    const blurred = gaussianBlurChannel(channel, width, height, sigma);
+    for (let p = 0; p < pixelCount; p++) {
+      data[p * 4 + c] = blurred[p];
+    }
+  }
+};
+
+// Approximate a gaussian blur with three box blur passes
+const gaussianBlurChannel = (channel: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  // Box passes can't go below sigma ~1.4, which matters for downscaled previews
+  if (sigma < 0.8) {
+    return smallBlurChannel(channel, width, height, sigma);
+  }
+
+  const passes = 3;
+  const idealWidth = Math.sqrt((12 * sigma * sigma) / passes + 1);
+  const boxRadius = Math.max(1, Math.round((idealWidth - 1) / 2));
+
+  const source = new Float32Array(channel);
+  const target = new Float32Array(channel.length);
+
+  for (let pass = 0; pass < passes; pass++) {
+    boxBlurHorizontal(source, target, width, height, boxRadius);
+    boxBlurVertical(target, source, width, height, boxRadius);
+  }
+
+  return source;
+};
+
+// 3-tap [w, 1 - 2w, w] kernel in each direction, whose variance 2w matches sigma²
+const smallBlurChannel = (channel: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  const w = (sigma * sigma) / 2;
+  const center = 1 - 2 * w;
+  const horizontal = new Float32Array(channel.length);
+  const result = new Float32Array(channel.length);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      const left = channel[row + Math.max(x - 1, 0)];
+      const right = channel[row + Math.min(x + 1, width - 1)];
+      horizontal[row + x] = channel[row + x] * center + (left + right) * w;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const up = Math.max(y - 1, 0) * width;
+    const down = Math.min(y + 1, height - 1) * width;
+    for (let x = 0; x < width; x++) {
+      result[y * width + x] = horizontal[y * width + x] * center + (horizontal[up + x] + horizontal[down + x]) * w;
+    }
+  }
+
+  return result;
+};
+
+const boxBlurHorizontal = (source: Float32Array, target: Float32Array, width: number, height: number, radius: number): void => {
+  const size = radius * 2 + 1;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    // Running sum with edge pixels clamped
+    let sum = source[row] * (radius + 1);
+    for (let x = 1; x <= radius; x++) {
+      sum += source[row + Math.min(x, width - 1)];
+    }
+    for (let x = 0; x < width; x++) {
+      target[row + x] = sum / size;
+      sum += source[row + Math.min(x + radius + 1, width - 1)];
+      sum -= source[row + Math.max(x - radius, 0)];
+    }
+  }
+};
+
+const boxBlurVertical = (source: Float32Array, target: Float32Array, width: number, height: number, radius: number): void => {
+  const size = radius * 2 + 1;
+  for (let x = 0; x < width; x++) {
+    let sum = source[x] * (radius + 1);
+    for (let y = 1; y <= radius; y++) {
+      sum += source[Math.min(y, height - 1) * width + x];
+    }
+    for (let y = 0; y < height; y++) {
+      target[y * width + x] = sum / size;
+      sum += source[Math.min(y + radius + 1, height - 1) * width + x];
+      sum -= source[Math.max(y - radius, 0) * width + x];
+    }
+  }
+};
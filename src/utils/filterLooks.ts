@@ -0,0 +1,129 @@
+import { AdjustmentLayer, FilterLook, ImageFilters, defaultFilters } from '../types';
+import { createLayer, getFilterDefinition, getNeutralParams, toAdjustmentLayers, toFilterParams } from './filterRegistry';
+
+const STORAGE_KEY = 'photosquare.filterLooks';
+const FILE_VERSION = 1;
+
+export const createLookId = () => `look-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Flat values saved before adjustment layers: each filter's params and the old keys they came from
+const legacyFilters: [string, Record<string, string>][] = [
+  ['vintage', { amount: 'vintage' }],
+  ['drama', { amount: 'drama' }],
+  ['lomo', { amount: 'lomo' }],
+  ['cross', { amount: 'cross' }],
+  ['pinhole', { amount: 'pinhole' }],
+  ['kodachrome', { amount: 'kodachrome' }],
+  ['technicolor', { amount: 'technicolor' }],
+  ['polaroid', { amount: 'polaroid' }],
+  ['brightness', { amount: 'brightness' }],
+  ['contrast', { amount: 'contrast' }],
+  ['saturation', { amount: 'saturation' }],
+  ['temperature', { amount: 'temperature' }],
+  ['hue', { amount: 'hue' }],
+  ['grayscale', { amount: 'grayscale' }],
+  ['sepia', { amount: 'sepia' }],
+  ['hsl', { hsl: 'hsl' }],
+  ['levels', { levels: 'levels' }],
+  ['curves', { curves: 'curves' }],
+  ['lut', { lutId: 'lutId', amount: 'lutIntensity' }],
+  ['vignette', { amount: 'vignette' }],
+  ['hdr', { amount: 'hdr' }],
+  ['clarify', { amount: 'clarify' }],
+  ['sharpen', { amount: 'sharpen', radius: 'sharpenRadius', threshold: 'sharpenThreshold' }],
+  ['blur', { radius: 'blur' }],
+];
+
+// Every non-neutral flat value becomes a layer, in the fixed order they used to be applied in
+const fromLegacyFilters = (raw: Record<string, unknown>): AdjustmentLayer[] =>
+  legacyFilters.flatMap(([filterId, keys]) => {
+    const definition = getFilterDefinition(filterId)!;
+    const values = Object.fromEntries(Object.entries(keys)
+      .filter(([, legacyKey]) => raw[legacyKey] !== undefined)
+      .map(([param, legacyKey]) => [param, raw[legacyKey]]));
+    const params = toFilterParams(definition, { ...getNeutralParams(definition), ...values });
+    return definition.isNeutral(params) ? [] : [createLayer(definition, params)];
+  });
+
+// Only known filters survive; filters saved before adjustment layers are converted
+export const toFilters = (value: unknown): ImageFilters | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  return {
+    ...defaultFilters,
+    layers: Array.isArray(raw.layers) ? toAdjustmentLayers(raw.layers) : fromLegacyFilters(raw),
+  };
+};
+
+const toLook = (value: unknown): FilterLook | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  const filters = toFilters(raw.filters);
+  if (typeof raw.name !== 'string' || !raw.name.trim() || !filters) return null;
+
+  return {
+    id: typeof raw.id === 'string' && raw.id.startsWith('look-') ? raw.id : createLookId(),
+    name: raw.name.trim(),
+    filters,
+  };
+};
+
+// Layer ids differ between copies of a look, so only what the layers do is compared
+const describeLayers = (filters: ImageFilters) =>
+  JSON.stringify(filters.layers.map(({ filter, visible, params, mask }) => [filter, visible, params, mask ?? null]));
+
+export const isLookApplied = (look: FilterLook, filters: ImageFilters): boolean =>
+  describeLayers(look.filters) === describeLayers(filters);
+
+export const loadFilterLooks = (): FilterLook[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.map(toLook).filter((l): l is FilterLook => l !== null) : [];
+  } catch (error) {
+    console.error('Error loading filter looks:', error);
+    return [];
+  }
+};
+
+export const saveFilterLooks = (looks: FilterLook[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(looks));
+  } catch (error) {
+    console.error('Error saving filter looks:', error);
+  }
+};
+
+export const serializeFilterLooks = (looks: FilterLook[]): string =>
+  JSON.stringify({ version: FILE_VERSION, looks }, null, 2);
+
+/**
+ * Parse a shared looks file. Accepts the exported { version, looks } shape or a bare array.
+ * Throws when nothing usable is found.
+ */
+export const parseFilterLooks = (text: string): FilterLook[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { looks?: unknown })?.looks;
+  if (!Array.isArray(list)) {
+    throw new Error('The file does not contain any looks.');
+  }
+
+  const looks = list.map(toLook).filter((l): l is FilterLook => l !== null);
+  if (looks.length === 0) {
+    throw new Error('None of the looks in the file have a name and filter values.');
+  }
+  return looks;
+};
+
+// Imported looks replace existing ones with the same id and are added otherwise
+export const mergeFilterLooks = (existing: FilterLook[], imported: FilterLook[]): FilterLook[] => {
+  const importedIds = new Set(imported.map(look => look.id));
+  return [...existing.filter(look => !importedIds.has(look.id)), ...imported];
+};
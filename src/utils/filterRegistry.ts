@@ -0,0 +1,454 @@
+import {
+  AdjustmentLayer,
+  ColorLut,
+  FilterParams,
+  HslAdjustments,
+  ImageFilters,
+  LevelsAdjustment,
+  ToneCurves,
+  defaultCurves,
+  defaultHsl,
+  defaultLevels,
+} from '../types';
+import {
+  PixelTransform,
+  applyBlur,
+  applyClarify,
+  applyColorLut,
+  applyCrossProcess,
+  applyCurves,
+  applyDrama,
+  applyExposure,
+  applyHDR,
+  applyHslMixer,
+  applyKodachrome,
+  applyLevels,
+  applyLomo,
+  applyPinhole,
+  applyPixelTransforms,
+  applyPolaroid,
+  applySharpen,
+  applyTechnicolor,
+  applyVignette,
+  applyVintage,
+  brightnessPixel,
+  contrastPixel,
+  grayscalePixel,
+  hueShiftPixel,
+  saturationPixel,
+  sepiaPixel,
+  temperaturePixel,
+} from './filterKernels';
+import { isDefaultLevels, isIdentityCurve, toLevels, toToneCurves } from './toneCurves';
+import { isDefaultHsl, toHslAdjustments } from './hslMixer';
+import { toLayerMask } from './layerMasks';
+
+// Groups match the filter editor's tabs
+export type FilterCategory = 'basic' | 'advanced' | 'tone' | 'presets' | 'lut';
+
+interface SliderParam {
+  kind: 'slider';
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  default: number; // value on a newly added layer
+  neutral?: number; // value with no effect, shown before the filter is added; `default` if omitted
+}
+
+interface CurvesParam {
+  kind: 'curves';
+  key: string;
+  label: string;
+  default: ToneCurves;
+}
+
+interface LevelsParam {
+  kind: 'levels';
+  key: string;
+  label: string;
+  default: LevelsAdjustment;
+}
+
+interface HslParam {
+  kind: 'hsl';
+  key: string;
+  label: string;
+  default: HslAdjustments;
+}
+
+// Id of an imported ColorLut
+interface LutParam {
+  kind: 'lut';
+  key: string;
+  label: string;
+  default: null;
+}
+
+export type FilterParam = SliderParam | CurvesParam | LevelsParam | HslParam | LutParam;
+
+export interface FilterContext {
+  width: number;
+  height: number;
+  pixelScale: number; // canvas pixels per output pixel, below 1 for previews
+  getLut: (id: string) => ColorLut | null;
+}
+
+/**
+ * Everything the app needs to know about one effect: its settings, how the editor shows it,
+ * and the kernel that applies it. Adding an effect only takes a new entry in `filterRegistry`.
+ */
+export interface FilterDefinition {
+  id: string;
+  label: string;
+  icon: string;
+  description: string;
+  category: FilterCategory;
+  params: FilterParam[];
+  isNeutral: (params: FilterParams) => boolean; // true when applying would change nothing
+  apply: (data: Uint8ClampedArray, params: FilterParams, context: FilterContext) => void;
+  // Per-pixel adjustments also say so, and neighbouring ones run in a single unclamped pass
+  pixel?: (params: FilterParams) => PixelTransform;
+}
+
+const num = (params: FilterParams, key: string) => params[key] as number;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// A 0-100% strength slider, the only setting of most effects
+const amount = (label: string, defaultValue = 0, neutral?: number): SliderParam => ({
+  kind: 'slider', key: 'amount', label, min: 0, max: 100, step: 1, unit: '%', default: defaultValue, neutral,
+});
+
+const isZeroAmount = (params: FilterParams) => num(params, 'amount') === 0;
+
+// A per-pixel adjustment, applied on its own or fused with its neighbours by the processor
+const pointFilter = (definition: Omit<FilterDefinition, 'apply'> & Required<Pick<FilterDefinition, 'pixel'>>): FilterDefinition => ({
+  ...definition,
+  apply: (data, params) => applyPixelTransforms(data, [definition.pixel(params)]),
+});
+
+// Film looks start at 70% when applied, and read as off at 0
+const filmLook = (
+  id: string,
+  label: string,
+  icon: string,
+  description: string,
+  apply: FilterDefinition['apply']
+): FilterDefinition => ({
+  id, label, icon, description, category: 'presets', params: [amount(label, 70, 0)], isNeutral: isZeroAmount, apply,
+});
+
+// In the order the editor used to apply them, which is also the order new layers are suggested in
+export const filterRegistry: FilterDefinition[] = [
+  filmLook('vintage', 'Vintage', '📸', 'Classic film look',
+    (data, p) => applyVintage(data, num(p, 'amount') / 100)),
+  filmLook('drama', 'Drama', '🎭', 'High contrast drama',
+    (data, p) => applyDrama(data, num(p, 'amount') / 100)),
+  filmLook('lomo', 'Lomo', '📷', 'Lomography style',
+    (data, p, { width, height }) => applyLomo(data, width, height, num(p, 'amount') / 100)),
+  filmLook('cross', 'Cross Process', '🌈', 'Color cross processing',
+    (data, p) => applyCrossProcess(data, num(p, 'amount') / 100)),
+  filmLook('pinhole', 'Pinhole', '🕳️', 'Pinhole camera effect',
+    (data, p, { width, height }) => applyPinhole(data, width, height, num(p, 'amount') / 100)),
+  filmLook('kodachrome', 'Kodachrome', '🎞️', 'Warm film emulation',
+    (data, p) => applyKodachrome(data, num(p, 'amount') / 100)),
+  filmLook('technicolor', 'Technicolor', '🎨', 'Enhanced color saturation',
+    (data, p) => applyTechnicolor(data, num(p, 'amount') / 100)),
+  filmLook('polaroid', 'Polaroid', '📸', 'Instant photo look',
+    (data, p) => applyPolaroid(data, num(p, 'amount') / 100)),
+  {
+    id: 'exposure',
+    label: 'Exposure',
+    icon: '💡',
+    description: 'Brighten or darken in photographic stops',
+    category: 'basic',
+    params: [{ kind: 'slider', key: 'stops', label: 'Exposure', min: -3, max: 3, step: 0.1, unit: ' EV', default: 0 }],
+    isNeutral: p => num(p, 'stops') === 0,
+    apply: (data, p) => applyExposure(data, num(p, 'stops')),
+  },
+  pointFilter({
+    id: 'brightness',
+    label: 'Brightness',
+    icon: '☀️',
+    description: 'Lighten or darken the whole image',
+    category: 'basic',
+    params: [{ kind: 'slider', key: 'amount', label: 'Brightness', min: 0, max: 200, step: 1, unit: '%', default: 100 }],
+    isNeutral: p => num(p, 'amount') === 100,
+    pixel: p => brightnessPixel(num(p, 'amount') / 100),
+  }),
+  pointFilter({
+    id: 'contrast',
+    label: 'Contrast',
+    icon: '◐',
+    description: 'Spread or flatten the tones around mid-grey',
+    category: 'basic',
+    params: [{ kind: 'slider', key: 'amount', label: 'Contrast', min: 0, max: 200, step: 1, unit: '%', default: 100 }],
+    isNeutral: p => num(p, 'amount') === 100,
+    pixel: p => contrastPixel(num(p, 'amount')),
+  }),
+  pointFilter({
+    id: 'saturation',
+    label: 'Saturation',
+    icon: '🌈',
+    description: 'Color intensity',
+    category: 'basic',
+    params: [{ kind: 'slider', key: 'amount', label: 'Saturation', min: 0, max: 200, step: 1, unit: '%', default: 100 }],
+    isNeutral: p => num(p, 'amount') === 100,
+    pixel: p => saturationPixel(num(p, 'amount') / 100),
+  }),
+  pointFilter({
+    id: 'temperature',
+    label: 'Temperature',
+    icon: '🌡️',
+    description: 'Warm or cool white balance',
+    category: 'advanced',
+    params: [{ kind: 'slider', key: 'amount', label: 'Temperature', min: -100, max: 100, step: 1, unit: '', default: 0 }],
+    isNeutral: isZeroAmount,
+    pixel: p => temperaturePixel(num(p, 'amount') / 100),
+  }),
+  pointFilter({
+    id: 'hue',
+    label: 'Hue',
+    icon: '🎡',
+    description: 'Rotate every color around the color wheel',
+    category: 'advanced',
+    params: [{ kind: 'slider', key: 'amount', label: 'Hue', min: -180, max: 180, step: 1, unit: '°', default: 0 }],
+    isNeutral: isZeroAmount,
+    pixel: p => hueShiftPixel(num(p, 'amount')),
+  }),
+  pointFilter({
+    id: 'grayscale',
+    label: 'Grayscale',
+    icon: '⚫',
+    description: 'Fade towards black and white',
+    category: 'basic',
+    params: [amount('Grayscale')],
+    isNeutral: isZeroAmount,
+    pixel: p => grayscalePixel(num(p, 'amount') / 100),
+  }),
+  pointFilter({
+    id: 'sepia',
+    label: 'Sepia',
+    icon: '🟤',
+    description: 'Vintage brown toning',
+    category: 'basic',
+    params: [amount('Sepia')],
+    isNeutral: isZeroAmount,
+    pixel: p => sepiaPixel(num(p, 'amount') / 100),
+  }),
+  {
+    id: 'hsl',
+    label: 'HSL Mixer',
+    icon: '🎚️',
+    description: 'Hue, saturation and luminance per color range',
+    category: 'tone',
+    params: [{ kind: 'hsl', key: 'hsl', label: 'HSL Mixer', default: defaultHsl }],
+    isNeutral: p => isDefaultHsl(p.hsl as HslAdjustments),
+    apply: (data, p) => applyHslMixer(data, p.hsl as HslAdjustments),
+  },
+  {
+    id: 'levels',
+    label: 'Levels',
+    icon: '📊',
+    description: 'Black point, white point and midtones',
+    category: 'tone',
+    params: [{ kind: 'levels', key: 'levels', label: 'Levels', default: defaultLevels }],
+    isNeutral: p => isDefaultLevels(p.levels as LevelsAdjustment),
+    apply: (data, p) => applyLevels(data, p.levels as LevelsAdjustment),
+  },
+  {
+    id: 'curves',
+    label: 'Curves',
+    icon: '📈',
+    description: 'Tone curve for RGB and each channel',
+    category: 'tone',
+    params: [{ kind: 'curves', key: 'curves', label: 'Curves', default: defaultCurves }],
+    isNeutral: p => {
+      const curves = p.curves as ToneCurves;
+      return [curves.master, curves.red, curves.green, curves.blue].every(isIdentityCurve);
+    },
+    apply: (data, p) => applyCurves(data, p.curves as ToneCurves),
+  },
+  {
+    id: 'lut',
+    label: 'Color LUT',
+    icon: '🧊',
+    description: 'Grade with an imported .cube or HaldCLUT',
+    category: 'lut',
+    params: [
+      { kind: 'lut', key: 'lutId', label: 'LUT', default: null },
+      amount('Intensity', 100),
+    ],
+    isNeutral: p => typeof p.lutId !== 'string' || isZeroAmount(p),
+    apply: (data, p, { getLut }) => {
+      // A LUT that was deleted or hasn't loaded yet leaves the image as it is
+      const lut = getLut(p.lutId as string);
+      if (lut) applyColorLut(data, lut, num(p, 'amount') / 100);
+    },
+  },
+  {
+    id: 'vignette',
+    label: 'Vignette',
+    icon: '⭕',
+    description: 'Darken towards the corners',
+    category: 'advanced',
+    params: [amount('Vignette')],
+    isNeutral: isZeroAmount,
+    apply: (data, p, { width, height }) => applyVignette(data, width, height, num(p, 'amount') / 100),
+  },
+  {
+    id: 'hdr',
+    label: 'HDR',
+    icon: '✨',
+    description: 'Deepen midtones and shadows',
+    category: 'advanced',
+    params: [amount('HDR')],
+    isNeutral: isZeroAmount,
+    apply: (data, p) => applyHDR(data, num(p, 'amount') / 100),
+  },
+  {
+    id: 'clarify',
+    label: 'Clarify',
+    icon: '💎',
+    description: 'Midtone local contrast',
+    category: 'advanced',
+    params: [amount('Clarify')],
+    isNeutral: isZeroAmount,
+    apply: (data, p, { width, height, pixelScale }) =>
+      applyClarify(data, width, height, num(p, 'amount') / 100, 4 * pixelScale),
+  },
+  {
+    id: 'sharpen',
+    label: 'Sharpen',
+    icon: '🔪',
+    description: 'Unsharp mask',
+    category: 'advanced',
+    params: [
+      amount('Sharpen'),
+      { kind: 'slider', key: 'radius', label: 'Sharpen Radius', min: 0.5, max: 5, step: 0.1, unit: 'px', default: 1 },
+      { kind: 'slider', key: 'threshold', label: 'Sharpen Threshold', min: 0, max: 50, step: 1, unit: '', default: 0 },
+    ],
+    isNeutral: isZeroAmount,
+    apply: (data, p, { width, height, pixelScale }) =>
+      applySharpen(data, width, height, num(p, 'amount') / 100, num(p, 'radius') * pixelScale, num(p, 'threshold')),
+  },
+  {
+    id: 'blur',
+    label: 'Blur',
+    icon: '🌫️',
+    description: 'Gaussian blur',
+    category: 'advanced',
+    params: [{ kind: 'slider', key: 'radius', label: 'Blur', min: 0, max: 10, step: 0.1, unit: 'px', default: 0 }],
+    isNeutral: p => num(p, 'radius') === 0,
+    apply: (data, p, { width, height, pixelScale }) =>
+      applyBlur(data, width, height, num(p, 'radius') * pixelScale),
+  },
+];
+
+export const getFilterDefinition = (id: string): FilterDefinition | undefined =>
+  filterRegistry.find(definition => definition.id === id);
+
+export const getFiltersByCategory = (category: FilterCategory): FilterDefinition[] =>
+  filterRegistry.filter(definition => definition.category === category);
+
+export const createLayerId = () => `layer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const getDefaultParams = (definition: FilterDefinition): FilterParams =>
+  Object.fromEntries(definition.params.map(param => [param.key, param.default]));
+
+// What the editor shows for a filter that isn't in the stack yet
+export const getNeutralParams = (definition: FilterDefinition): FilterParams =>
+  Object.fromEntries(definition.params.map(param =>
+    [param.key, param.kind === 'slider' ? param.neutral ?? param.default : param.default]));
+
+export const createLayer = (definition: FilterDefinition, params: FilterParams = {}): AdjustmentLayer => ({
+  id: createLayerId(),
+  filter: definition.id,
+  visible: true,
+  params: { ...getDefaultParams(definition), ...params },
+});
+
+export const isLayerActive = (layer: AdjustmentLayer): boolean => {
+  const definition = getFilterDefinition(layer.filter);
+  return !!definition && layer.visible && !definition.isNeutral(layer.params);
+};
+
+// The top-most layer of a filter, which the editor's sliders edit
+export const findLayer = (filters: ImageFilters, filterId: string): AdjustmentLayer | undefined =>
+  [...filters.layers].reverse().find(layer => layer.filter === filterId);
+
+export const getFilterParams = (filters: ImageFilters, definition: FilterDefinition): FilterParams =>
+  findLayer(filters, definition.id)?.params ?? getNeutralParams(definition);
+
+// Edit a filter's top-most layer, adding one to the top of the stack when there's none yet
+export const setFilterParams = (filters: ImageFilters, definition: FilterDefinition, changes: FilterParams): ImageFilters => {
+  const layer = findLayer(filters, definition.id);
+  if (!layer) {
+    return { ...filters, layers: [...filters.layers, createLayer(definition, { ...getNeutralParams(definition), ...changes })] };
+  }
+  return {
+    ...filters,
+    layers: filters.layers.map(l => (l.id === layer.id ? { ...l, params: { ...l.params, ...changes } } : l)),
+  };
+};
+
+// Film looks replace each other rather than stacking up
+export const applyFilmLook = (filters: ImageFilters, definition: FilterDefinition): ImageFilters => ({
+  ...filters,
+  layers: [...filters.layers.filter(layer => getFilterDefinition(layer.filter)?.category !== 'presets'), createLayer(definition)],
+});
+
+// Imported LUTs the visible layers grade with
+export const getLayerLutIds = (filters: ImageFilters): string[] =>
+  filters.layers.flatMap((layer) => {
+    const definition = getFilterDefinition(layer.filter);
+    if (!definition || !layer.visible) return [];
+    return definition.params
+      .filter(param => param.kind === 'lut')
+      .map(param => layer.params[param.key])
+      .filter((id): id is string => typeof id === 'string');
+  });
+
+// Rebuild layers from untrusted JSON; unknown filters are dropped and bad values fall back to defaults
+
+export const toFilterParams = (definition: FilterDefinition, value: unknown): FilterParams => {
+  const raw = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  return Object.fromEntries(definition.params.map((param) => {
+    const entry = raw[param.key];
+    switch (param.kind) {
+      case 'slider':
+        return [param.key, typeof entry === 'number' && Number.isFinite(entry) ? clamp(entry, param.min, param.max) : param.default];
+      case 'curves':
+        return [param.key, toToneCurves(entry)];
+      case 'levels':
+        return [param.key, toLevels(entry)];
+      case 'hsl':
+        return [param.key, toHslAdjustments(entry)];
+      case 'lut':
+        return [param.key, typeof entry === 'string' ? entry : null];
+    }
+  }));
+};
+
+export const toAdjustmentLayers = (value: unknown): AdjustmentLayer[] => {
+  if (!Array.isArray(value)) return [];
+  const ids = new Set<string>();
+  return value.flatMap((entry) => {
+    if (typeof entry !== 'object' || entry === null) return [];
+    const raw = entry as Record<string, unknown>;
+    const definition = typeof raw.filter === 'string' ? getFilterDefinition(raw.filter) : undefined;
+    if (!definition) return [];
+    const id = typeof raw.id === 'string' && raw.id.startsWith('layer-') && !ids.has(raw.id) ? raw.id : createLayerId();
+    ids.add(id);
+    return [{
+      id,
+      filter: definition.id,
+      visible: raw.visible !== false,
+      params: toFilterParams(definition, raw.params),
+      mask: toLayerMask(raw.mask),
+    }];
+  });
+};
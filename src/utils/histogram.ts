@@ -0,0 +1,100 @@
+import { PhotoRect } from '../types';
+
+const BINS = 256;
+// Plenty for a preview histogram; larger canvases are sampled on a grid
+const MAX_SAMPLES = 1_000_000;
+
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luminance: Uint32Array;
+  samples: number; // opaque pixels counted
+  clippedShadows: number; // share (0-1) of samples with a channel at 0
+  clippedHighlights: number; // share (0-1) of samples with a channel at 255
+}
+
+// Same weights the filters use for grayscale and luminance
+const getLuminance = (r: number, g: number, b: number) => Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+
+// Only the photo's rect when given, so the preset's padding never reads as clipping
+const readPixels = (canvas: HTMLCanvasElement, rect?: PhotoRect): ImageData | null => {
+  const { x, y, width, height } = rect ?? { x: 0, y: 0, width: canvas.width, height: canvas.height };
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  return ctx && width > 0 && height > 0 ? ctx.getImageData(x, y, width, height) : null;
+};
+
+export const computeHistogram = (canvas: HTMLCanvasElement, photoRect?: PhotoRect): Histogram | null => {
+  const imageData = readPixels(canvas, photoRect);
+  if (!imageData) return null;
+
+  const { data, width, height } = imageData;
+  const step = Math.max(1, Math.ceil(Math.sqrt((width * height) / MAX_SAMPLES)));
+  const histogram: Histogram = {
+    red: new Uint32Array(BINS),
+    green: new Uint32Array(BINS),
+    blue: new Uint32Array(BINS),
+    luminance: new Uint32Array(BINS),
+    samples: 0,
+    clippedShadows: 0,
+    clippedHighlights: 0,
+  };
+
+  let shadows = 0;
+  let highlights = 0;
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const i = (y * width + x) * 4;
+      // Transparent areas of an Original-preset PNG aren't part of the photo
+      if (data[i + 3] === 0) continue;
+
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+      histogram.red[r]++;
+      histogram.green[g]++;
+      histogram.blue[b]++;
+      histogram.luminance[getLuminance(r, g, b)]++;
+      histogram.samples++;
+      if (r === 0 || g === 0 || b === 0) shadows++;
+      if (r === 255 || g === 255 || b === 255) highlights++;
+    }
+  }
+
+  if (histogram.samples > 0) {
+    histogram.clippedShadows = shadows / histogram.samples;
+    histogram.clippedHighlights = highlights / histogram.samples;
+  }
+  return histogram;
+};
+
+/**
+ * Paint clipped pixels of `source` into `target` (resized to match): red where a channel
+ * hits 255, blue where one hits 0, transparent elsewhere and outside `photoRect`.
+ */
+export const drawClippingOverlay = (source: HTMLCanvasElement, target: HTMLCanvasElement, photoRect?: PhotoRect): void => {
+  const imageData = readPixels(source, photoRect);
+  target.width = source.width;
+  target.height = source.height;
+  const ctx = target.getContext('2d');
+  if (!imageData || !ctx) return;
+
+  const { data } = imageData;
+  const overlay = ctx.createImageData(imageData.width, imageData.height);
+  const out = overlay.data;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    if (r === 255 || g === 255 || b === 255) {
+      out[i] = 255;
+      out[i + 3] = 255;
+    } else if (r === 0 || g === 0 || b === 0) {
+      out[i + 1] = 96;
+      out[i + 2] = 255;
+      out[i + 3] = 255;
+    }
+  }
+  ctx.putImageData(overlay, photoRect?.x ?? 0, photoRect?.y ?? 0);
+};
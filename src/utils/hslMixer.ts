@@ -0,0 +1,102 @@
+import { HslAdjustment, HslAdjustments, HslRange, defaultHsl } from '../types';
+
+// Hue at the centre of each range, in degrees; ranges blend smoothly into their neighbours
+export const hslRanges: { id: HslRange; label: string; hue: number; color: string }[] = [
+  { id: 'reds', label: 'Reds', hue: 0, color: '#ef4444' },
+  { id: 'oranges', label: 'Oranges', hue: 30, color: '#f97316' },
+  { id: 'yellows', label: 'Yellows', hue: 60, color: '#eab308' },
+  { id: 'greens', label: 'Greens', hue: 120, color: '#22c55e' },
+  { id: 'aquas', label: 'Aquas', hue: 180, color: '#06b6d4' },
+  { id: 'blues', label: 'Blues', hue: 240, color: '#3b82f6' },
+  { id: 'purples', label: 'Purples', hue: 270, color: '#8b5cf6' },
+  { id: 'magentas', label: 'Magentas', hue: 300, color: '#d946ef' },
+];
+
+// Hue shift at ±100, in degrees
+const MAX_HUE_SHIFT = 30;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const isNeutral = (adjustment: HslAdjustment) =>
+  adjustment.hue === 0 && adjustment.saturation === 0 && adjustment.luminance === 0;
+
+export const isDefaultHsl = (hsl: HslAdjustments): boolean =>
+  hslRanges.every(range => isNeutral(hsl[range.id]));
+
+/**
+ * Per-degree hue shift (degrees), saturation and luminance (-1 to 1) for every input hue.
+ * A hue between two range centres takes a cosine-weighted mix of both, so there are no seams.
+ * Null when every range is neutral.
+ */
+export const createHslTable = (hsl: HslAdjustments): Float32Array | null => {
+  if (isDefaultHsl(hsl)) return null;
+
+  const table = new Float32Array(360 * 3);
+  for (let hue = 0; hue < 360; hue++) {
+    let index = hslRanges.length - 1;
+    while (index > 0 && hue < hslRanges[index].hue) index--;
+    const from = hslRanges[index];
+    const to = hslRanges[(index + 1) % hslRanges.length];
+    const span = ((to.hue - from.hue + 360) % 360) || 360;
+    const t = (hue - from.hue) / span;
+    const weight = (1 - Math.cos(Math.PI * t)) / 2;
+
+    const a = hsl[from.id];
+    const b = hsl[to.id];
+    table[hue * 3] = ((a.hue * (1 - weight) + b.hue * weight) / 100) * MAX_HUE_SHIFT;
+    table[hue * 3 + 1] = (a.saturation * (1 - weight) + b.saturation * weight) / 100;
+    table[hue * 3 + 2] = (a.luminance * (1 - weight) + b.luminance * weight) / 100;
+  }
+  return table;
+};
+
+// r, g, b 0-255 to hue 0-360, saturation and lightness 0-1
+export const rgbToHsl = (r: number, g: number, b: number): [number, number, number] => {
+  r /= 255;
+  g /= 255;
+  b /= 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return [0, 0, l];
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) h = ((g - b) / d) % 6;
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  return [(h * 60 + 360) % 360, s, l];
+};
+
+export const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const hp = (((h % 360) + 360) % 360) / 60;
+  const x = c * (1 - Math.abs((hp % 2) - 1));
+  let rgb: [number, number, number];
+  if (hp < 1) rgb = [c, x, 0];
+  else if (hp < 2) rgb = [x, c, 0];
+  else if (hp < 3) rgb = [0, c, x];
+  else if (hp < 4) rgb = [0, x, c];
+  else if (hp < 5) rgb = [x, 0, c];
+  else rgb = [c, 0, x];
+  const m = l - c / 2;
+  return [(rgb[0] + m) * 255, (rgb[1] + m) * 255, (rgb[2] + m) * 255];
+};
+
+// Rebuild the mixer from untrusted JSON; missing or invalid values stay neutral
+export const toHslAdjustments = (value: unknown): HslAdjustments => {
+  const raw = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  const hsl = { ...defaultHsl };
+  hslRanges.forEach(({ id }) => {
+    const entry = raw[id];
+    if (typeof entry !== 'object' || entry === null) return;
+    const { hue, saturation, luminance } = entry as Record<string, unknown>;
+    hsl[id] = {
+      hue: Number.isFinite(hue) ? clamp(hue as number, -100, 100) : 0,
+      saturation: Number.isFinite(saturation) ? clamp(saturation as number, -100, 100) : 0,
+      luminance: Number.isFinite(luminance) ? clamp(luminance as number, -100, 100) : 0,
+    };
+  });
+  return hsl;
+};
@@ -1,15 +1,237 @@
-import { ImageFilters, FormatOptions } from '../types';
+import {
+  ColorLut,
+  ImageFilters,
+  FormatOptions,
+  GradientOptions,
+  ImagePlacement,
+  ImageTransform,
+  PhotoRect,
+  defaultPlacement,
+  defaultTransform,
+} from '../types';
 import { AdvancedFilterProcessor } from './advancedFilters';
-// @ts-ignore - heic2any doesn't have TypeScript types
-import heic2any from 'heic2any';
+import { createCanvas, getContext2d, DrawableImage, RenderCanvas, RenderContext } from './canvas';
 
-export const createFormattedImage = (
-  image: HTMLImageElement,
+const isIdentityTransform = (transform: ImageTransform): boolean =>
+  transform.rotation === 0 &&
+  transform.straighten === 0 &&
+  !transform.flipH &&
+  !transform.flipV &&
+  !transform.crop;
+
+// Zoom needed for a straightened photo to cover its own unrotated bounds
+export const getStraightenScale = (width: number, height: number, degrees: number): number => {
+  const radians = (Math.abs(degrees) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return Math.max(
+    (width * cos + height * sin) / width,
+    (width * sin + height * cos) / height
+  );
+};
+
+// Rotate, flip and straighten the photo without cropping
+export const createRotatedImage = (image: DrawableImage, transform: ImageTransform): RenderCanvas => {
+  const quarterTurn = transform.rotation === 90 || transform.rotation === 270;
+  const width = quarterTurn ? image.height : image.width;
+  const height = quarterTurn ? image.width : image.height;
+
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2d(canvas);
+
+  const straightenScale = getStraightenScale(width, height, transform.straighten);
+
+  ctx.translate(width / 2, height / 2);
+  // Flip in view space so "horizontal" matches what the user sees
+  ctx.scale(transform.flipH ? -1 : 1, transform.flipV ? -1 : 1);
+  ctx.rotate(((transform.rotation + transform.straighten) * Math.PI) / 180);
+  ctx.scale(straightenScale, straightenScale);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+
+  return canvas;
+};
+
+// Apply the full crop/rotate transform, returning the source untouched when there is nothing to do
+export const applyImageTransform = (image: DrawableImage, transform: ImageTransform): DrawableImage => {
+  if (isIdentityTransform(transform)) return image;
+
+  const rotated = createRotatedImage(image, transform);
+  if (!transform.crop) return rotated;
+
+  const { crop } = transform;
+  const sx = crop.x * rotated.width;
+  const sy = crop.y * rotated.height;
+  const sw = Math.max(1, Math.round(crop.width * rotated.width));
+  const sh = Math.max(1, Math.round(crop.height * rotated.height));
+
+  const canvas = createCanvas(sw, sh);
+  getContext2d(canvas).drawImage(rotated, sx, sy, sw, sh, 0, 0, sw, sh);
+
+  return canvas;
+};
+
+// Draw an image upright according to its EXIF orientation (1-8)
+export const applyOrientation = (image: DrawableImage, orientation: number): DrawableImage => {
+  if (orientation < 2 || orientation > 8) return image;
+
+  const { width, height } = image;
+  // Orientations 5-8 are transposed, so the upright image has its sides swapped
+  const swap = orientation >= 5;
+  const canvas = createCanvas(swap ? height : width, swap ? width : height);
+  const ctx = getContext2d(canvas);
+
+  switch (orientation) {
+    case 2: ctx.setTransform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.setTransform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.setTransform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.setTransform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.setTransform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.setTransform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.setTransform(0, -1, 1, 0, 0, width); break;
+  }
+  ctx.drawImage(image, 0, 0);
+
+  return canvas;
+};
+
+// Decoded background textures, keyed by their data URL
+const backgroundImageCache = new Map<string, Promise<ImageBitmap>>();
+
+export const loadBackgroundImage = (src: string): Promise<ImageBitmap> => {
+  let cached = backgroundImageCache.get(src);
+  if (!cached) {
+    cached = fetch(src)
+      .then(response => response.blob())
+      .then(blob => createImageBitmap(blob));
+    // Drop failed loads so a re-upload can retry
+    cached.catch(() => backgroundImageCache.delete(src));
+    backgroundImageCache.set(src, cached);
+  }
+  return cached;
+};
+
+const createGradientFill = (
+  ctx: RenderContext,
+  gradient: GradientOptions,
+  canvasWidth: number,
+  canvasHeight: number
+): CanvasGradient => {
+  const centerX = canvasWidth / 2;
+  const centerY = canvasHeight / 2;
+  let fill: CanvasGradient;
+
+  if (gradient.type === 'radial') {
+    // Match CSS farthest-corner sizing
+    const radius = Math.sqrt(centerX * centerX + centerY * centerY);
+    fill = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
+  } else {
+    // Match CSS linear-gradient angles: 0deg points up, 90deg points right
+    const radians = (gradient.angle * Math.PI) / 180;
+    const dx = Math.sin(radians);
+    const dy = -Math.cos(radians);
+    const halfLength = (Math.abs(canvasWidth * dx) + Math.abs(canvasHeight * dy)) / 2;
+    fill = ctx.createLinearGradient(
+      centerX - dx * halfLength,
+      centerY - dy * halfLength,
+      centerX + dx * halfLength,
+      centerY + dy * halfLength
+    );
+  }
+
+  [...gradient.stops]
+    .sort((a, b) => a.offset - b.offset)
+    .forEach(stop => fill.addColorStop(Math.max(0, Math.min(100, stop.offset)) / 100, stop.color));
+
+  return fill;
+};
+
+// Paint the padding area behind the photo
+const drawBackground = async (
+  ctx: RenderContext,
+  image: DrawableImage,
   options: FormatOptions,
-  filters: ImageFilters
-): HTMLCanvasElement => {
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d')!;
+  canvasWidth: number,
+  canvasHeight: number,
+  pixelScale: number
+): Promise<void> => {
+  const { background } = options;
+
+  ctx.fillStyle = options.backgroundColor;
+  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+
+  if (background.mode === 'gradient' && background.gradient.stops.length > 0) {
+    ctx.fillStyle = createGradientFill(ctx, background.gradient, canvasWidth, canvasHeight);
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  }
+
+  if (background.mode === 'image' && background.image) {
+    const texture = await loadBackgroundImage(background.image.src);
+    if (background.image.fit === 'tile') {
+      const pattern = ctx.createPattern(texture, 'repeat');
+      if (pattern) {
+        // Keep the tile size relative to the output, not the preview
+        pattern.setTransform(new DOMMatrix().scale(pixelScale));
+        ctx.fillStyle = pattern;
+        ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+      }
+    } else {
+      ctx.drawImage(texture, 0, 0, canvasWidth, canvasHeight);
+    }
+  }
+
+  if (background.mode === 'blur') {
+    const { dim } = background;
+    const blurRadius = background.blurRadius * pixelScale;
+
+    // Cover the canvas and bleed past its edges so the blur doesn't fade into the fill color
+    const bleed = blurRadius * 2;
+    const scale = Math.max(
+      (canvasWidth + bleed * 2) / image.width,
+      (canvasHeight + bleed * 2) / image.height
+    );
+    const coverWidth = image.width * scale;
+    const coverHeight = image.height * scale;
+
+    ctx.save();
+    ctx.filter = blurRadius > 0 ? `blur(${blurRadius}px)` : 'none';
+    ctx.drawImage(
+      image,
+      (canvasWidth - coverWidth) / 2,
+      (canvasHeight - coverHeight) / 2,
+      coverWidth,
+      coverHeight
+    );
+    ctx.restore();
+
+    if (dim > 0) {
+      ctx.fillStyle = `rgba(0, 0, 0, ${dim / 100})`;
+      ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    }
+  }
+};
+
+export interface FormattedImage {
+  canvas: RenderCanvas;
+  photoRect: PhotoRect; // whole pixels the photo covers, clipped to the canvas
+  scale: number; // canvas pixels per full-resolution pixel, below 1 for previews
+}
+
+/**
+ * Render a photo into its preset frame with all filters applied.
+ * Pass maxDimension to render a downscaled preview; pixel-sized effects are scaled with it
+ * so the preview looks like a shrunk copy of the full-resolution export.
+ */
+export const createFormattedImage = async (
+  sourceImage: DrawableImage,
+  options: FormatOptions,
+  filters: ImageFilters,
+  placement: ImagePlacement = defaultPlacement,
+  transform: ImageTransform = defaultTransform,
+  maxDimension = 0,
+  luts: ColorLut[] = []
+): Promise<FormattedImage> => {
+  // Crop and rotate before fitting into the preset
+  const image = applyImageTransform(sourceImage, transform);
   
   let canvasWidth: number;
   let canvasHeight: number;
@@ -34,14 +256,19 @@ export const createFormattedImage = (
       }
     }
   }
+
+  // Output pixels per full-resolution pixel
+  const pixelScale = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(canvasWidth, canvasHeight)) : 1;
+  canvasWidth = Math.max(1, Math.round(canvasWidth * pixelScale));
+  canvasHeight = Math.max(1, Math.round(canvasHeight * pixelScale));
   
-  canvas.width = canvasWidth;
-  canvas.height = canvasHeight;
+  const canvas = createCanvas(canvasWidth, canvasHeight);
+  const ctx = getContext2d(canvas);
+  ctx.imageSmoothingQuality = 'high';
   
   // Fill background (only if not original)
   if (options.preset.id !== 'original') {
-    ctx.fillStyle = options.backgroundColor;
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    await drawBackground(ctx, image, options, canvasWidth, canvasHeight, pixelScale);
   }
   
   // Calculate dimensions to maintain aspect ratio
@@ -54,147 +281,52 @@ export const createFormattedImage = (
   
   if (options.preset.id === 'original') {
     // For original, just use the image as-is
-    scaledWidth = imgWidth;
-    scaledHeight = imgHeight;
+    scaledWidth = canvasWidth;
+    scaledHeight = canvasHeight;
     x = 0;
     y = 0;
     scale = 1;
   } else {
-    // Calculate scale to fit image within canvas while maintaining aspect ratio
-    scale = Math.min(canvasWidth / imgWidth, canvasHeight / imgHeight);
-    scaledWidth = imgWidth * scale;
-    scaledHeight = imgHeight * scale;
+    if (options.fitMode === 'stretch') {
+      // Fill the canvas exactly, ignoring the aspect ratio
+      scaledWidth = canvasWidth;
+      scaledHeight = canvasHeight;
+    } else {
+      if (options.fitMode === 'cover') {
+        // Fill the canvas and crop the overflow
+        scale = Math.max(canvasWidth / imgWidth, canvasHeight / imgHeight);
+      } else if (options.fitMode === 'none') {
+        // Keep native pixels, cropping or padding as needed
+        scale = pixelScale;
+      } else {
+        // Calculate scale to fit image within canvas while maintaining aspect ratio
+        scale = Math.min(canvasWidth / imgWidth, canvasHeight / imgHeight);
+      }
+      scaledWidth = imgWidth * scale;
+      scaledHeight = imgHeight * scale;
+    }
+
+    // Apply the user's zoom on top of the fit
+    scaledWidth *= placement.zoom;
+    scaledHeight *= placement.zoom;
     
-    // Center the image
-    x = (canvasWidth - scaledWidth) / 2;
-    y = (canvasHeight - scaledHeight) / 2;
+    // Center the image, then shift by the user's offset
+    x = (canvasWidth - scaledWidth) / 2 + placement.offsetX * canvasWidth;
+    y = (canvasHeight - scaledHeight) / 2 + placement.offsetY * canvasHeight;
   }
   
   // Draw image first
   ctx.drawImage(image, x, y, scaledWidth, scaledHeight);
   
   // Apply advanced filters using the new filter processor
-  const processor = new AdvancedFilterProcessor(canvas);
-  processor.applyAdvancedFilters(filters);
-  
-  // Apply additional blur effect if needed
-  if (filters.blur > 0) {
-    ctx.filter = `blur(${filters.blur}px)`;
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = canvas.width;
-    tempCanvas.height = canvas.height;
-    const tempCtx = tempCanvas.getContext('2d')!;
-    tempCtx.drawImage(canvas, 0, 0);
-    
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    if (options.preset.id !== 'original') {
-      ctx.fillStyle = options.backgroundColor;
-      ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-    }
-    ctx.drawImage(tempCanvas, 0, 0);
-    ctx.filter = 'none';
-  }
-  
-  return canvas;
-};
-
-export const createFilterString = (filters: ImageFilters): string => {
-  const filterParts = [];
-  
-  if (filters.grayscale > 0) {
-    filterParts.push(`grayscale(${filters.grayscale}%)`);
-  }
-  
-  if (filters.sepia > 0) {
-    filterParts.push(`sepia(${filters.sepia}%)`);
-  }
-  
-  if (filters.brightness !== 100) {
-    filterParts.push(`brightness(${filters.brightness}%)`);
-  }
-  
-  if (filters.contrast !== 100) {
-    filterParts.push(`contrast(${filters.contrast}%)`);
-  }
-  
-  if (filters.saturation !== 100) {
-    filterParts.push(`saturate(${filters.saturation}%)`);
-  }
-  
-  if (filters.hue !== 0) {
-    filterParts.push(`hue-rotate(${filters.hue}deg)`);
-  }
-  
-  if (filters.blur > 0) {
-    filterParts.push(`blur(${filters.blur}px)`);
-  }
-  
-  return filterParts.length > 0 ? filterParts.join(' ') : 'none';
-};
-
-export const downloadCanvas = (canvas: HTMLCanvasElement, filename: string): void => {
-  const link = document.createElement('a');
-  link.download = filename;
-  link.href = canvas.toDataURL('image/png');
-  link.click();
-};
+  const processor = new AdvancedFilterProcessor(canvas, pixelScale);
+  processor.applyAdvancedFilters(filters, luts);
 
-export const convertHeicToJpeg = async (file: File): Promise<Blob> => {
-  try {
-    const result = await heic2any({
-      blob: file,
-      toType: 'image/jpeg',
-      quality: 0.9
-    });
-    
-    // heic2any can return Blob or Blob[], we need a single Blob
-    return Array.isArray(result) ? result[0] : result;
-  } catch (error) {
-    console.error('Error converting HEIC file:', error);
-    throw new Error('Failed to convert HEIC file. Please try a different format.');
-  }
-};
+  // Edge pixels blended with the padding aren't counted as photo
+  const left = Math.min(canvasWidth, Math.max(0, Math.ceil(x)));
+  const top = Math.min(canvasHeight, Math.max(0, Math.ceil(y)));
+  const right = Math.max(left, Math.min(canvasWidth, Math.floor(x + scaledWidth)));
+  const bottom = Math.max(top, Math.min(canvasHeight, Math.floor(y + scaledHeight)));
 
-export const isHeicFile = (file: File): boolean => {
-  const heicMimeTypes = [
-    'image/heic',
-    'image/heif',
-    'image/heic-sequence',
-    'image/heif-sequence'
-  ];
-  
-  const heicExtensions = ['.heic', '.heif', '.hif'];
-  const fileName = file.name.toLowerCase();
-  
-  return heicMimeTypes.includes(file.type) || 
-         heicExtensions.some(ext => fileName.endsWith(ext));
+  return { canvas, photoRect: { x: left, y: top, width: right - left, height: bottom - top }, scale: pixelScale };
 };
-
-export const loadImageFromFile = async (file: File): Promise<HTMLImageElement> => {
-  return new Promise(async (resolve, reject) => {
-    try {
-      let imageFile: File | Blob = file;
-      
-      // Convert HEIC files to JPEG
-      if (isHeicFile(file)) {
-        console.log('Converting HEIC file to JPEG...');
-        imageFile = await convertHeicToJpeg(file);
-      }
-      
-      const img = new Image();
-      img.onload = () => {
-        // Clean up the object URL
-        URL.revokeObjectURL(img.src);
-        resolve(img);
-      };
-      img.onerror = () => {
-        URL.revokeObjectURL(img.src);
-        reject(new Error('Failed to load image'));
-      };
-      
-      img.src = URL.createObjectURL(imageFile);
-    } catch (error) {
-      reject(error);
-    }
-  });
-}; 
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { LayerMask, MaskShape } from '../types';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const MIN_MASK_RADIUS = 0.02;
+export const MAX_MASK_RADIUS = 1.5;
+
+// A subject-sized ellipse, or a band across the middle like a tilt-shift's sharp strip
+export const createLayerMask = (shape: MaskShape): LayerMask => ({
+  shape,
+  x: 0.5,
+  y: 0.5,
+  radiusX: 0.25,
+  radiusY: shape === 'radial' ? 0.3 : 0.15,
+  angle: 0,
+  feather: 50,
+  invert: false,
+});
+
+// Rebuild a mask from untrusted JSON; anything that isn't a mask means the layer covers the whole frame
+export const toLayerMask = (value: unknown): LayerMask | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const raw = value as Record<string, unknown>;
+  if (raw.shape !== 'radial' && raw.shape !== 'linear') return undefined;
+
+  const defaults = createLayerMask(raw.shape);
+  const toNumber = (key: 'x' | 'y' | 'radiusX' | 'radiusY' | 'angle' | 'feather', min: number, max: number) => {
+    const entry = raw[key];
+    return typeof entry === 'number' && Number.isFinite(entry) ? clamp(entry, min, max) : defaults[key];
+  };
+
+  return {
+    shape: raw.shape,
+    x: toNumber('x', 0, 1),
+    y: toNumber('y', 0, 1),
+    radiusX: toNumber('radiusX', MIN_MASK_RADIUS, MAX_MASK_RADIUS),
+    radiusY: toNumber('radiusY', MIN_MASK_RADIUS, MAX_MASK_RADIUS),
+    angle: toNumber('angle', -180, 180),
+    feather: toNumber('feather', 0, 100),
+    invert: raw.invert === true,
+  };
+};
+
+/**
+ * How strongly the layer applies at each pixel, 0-1: full strength inside the shape,
+ * easing out across the feathered part of its edge.
+ */
+export const createMaskWeights = (mask: LayerMask, width: number, height: number): Float32Array => {
+  const weights = new Float32Array(width * height);
+  const unit = Math.max(width, height);
+  const radiusX = Math.max(0.5, mask.radiusX * unit);
+  const radiusY = Math.max(0.5, mask.radiusY * unit);
+  const centerX = mask.x * width;
+  const centerY = mask.y * height;
+  const radians = (mask.angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const inner = 1 - mask.feather / 100;
+
+  for (let y = 0; y < height; y++) {
+    const dy = y + 0.5 - centerY;
+    for (let x = 0; x < width; x++) {
+      const dx = x + 0.5 - centerX;
+      // Distance in the shape's own rotated frame, 1 on its edge
+      const across = (-dx * sin + dy * cos) / radiusY;
+      let distance = Math.abs(across);
+      if (mask.shape === 'radial') {
+        const along = (dx * cos + dy * sin) / radiusX;
+        distance = Math.sqrt(along * along + across * across);
+      }
+
+      let weight = 0;
+      if (distance <= inner) {
+        weight = 1;
+      } else if (distance < 1) {
+        const t = (1 - distance) / (1 - inner);
+        weight = t * t * (3 - 2 * t);
+      }
+      weights[y * width + x] = mask.invert ? 1 - weight : weight;
+    }
+  }
+  return weights;
+};
+
+// Mix the adjusted pixels back over the `original` ones, pixel by pixel
+export const blendThroughMask = (data: Uint8ClampedArray, original: Uint8ClampedArray, weights: Float32Array): void => {
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const weight = weights[p];
+    if (weight === 1) continue;
+    data[i] = original[i] + (data[i] - original[i]) * weight;
+    data[i + 1] = original[i + 1] + (data[i + 1] - original[i + 1]) * weight;
+    data[i + 2] = original[i + 2] + (data[i + 2] - original[i + 2]) * weight;
+    data[i + 3] = original[i + 3] + (data[i + 3] - original[i + 3]) * weight;
+  }
+};
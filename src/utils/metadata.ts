@@ -0,0 +1,454 @@
+import { GpsPosition, ImageMetadata } from '../types';
+
+// Metadata lives in the first APP segments, so there's no need to read the whole photo
+const HEADER_BYTES = 512 * 1024;
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+
+export interface JpegSegment {
+  marker: number;
+  offset: number; // of the 0xFF marker byte
+  dataOffset: number; // first byte after the length field
+  length: number; // data length, excluding the marker and length field
+}
+
+export const isJpeg = (bytes: Uint8Array): boolean => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string): boolean => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+// Header segments up to the start of the image data
+export const readJpegSegments = (bytes: Uint8Array): JpegSegment[] => {
+  const segments: JpegSegment[] = [];
+  if (!isJpeg(bytes)) return segments;
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    // Cut short by the end of the header slice, so it can't be copied whole
+    if (offset + 2 + length > bytes.length) break;
+    segments.push({ marker, offset, dataOffset: offset + 4, length: length - 2 });
+    offset += 2 + length;
+  }
+  return segments;
+};
+
+export const isExifSegment = (bytes: Uint8Array, segment: JpegSegment) =>
+  segment.marker === 0xe1 && startsWith(bytes, segment.dataOffset, EXIF_HEADER);
+
+export const isXmpSegment = (bytes: Uint8Array, segment: JpegSegment) =>
+  segment.marker === 0xe1 && startsWith(bytes, segment.dataOffset, XMP_HEADER);
+
+export const isIptcSegment = (bytes: Uint8Array, segment: JpegSegment) =>
+  segment.marker === 0xed && startsWith(bytes, segment.dataOffset, PHOTOSHOP_HEADER);
+
+// --- EXIF -----------------------------------------------------------------
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  entryOffset: number; // absolute offset of the 12-byte entry
+  valueOffset: number; // absolute offset of the value, inline or not
+}
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+class TiffReader {
+  private view: DataView;
+  private start: number;
+  private little: boolean;
+
+  constructor(bytes: Uint8Array, start: number) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.start = start;
+    this.little = this.view.getUint16(start) === 0x4949; // 'II'
+  }
+
+  get littleEndian() {
+    return this.little;
+  }
+
+  firstIfd(): number {
+    return this.start + this.view.getUint32(this.start + 4, this.little);
+  }
+
+  readIfd(offset: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>();
+    if (offset + 2 > this.view.byteLength) return entries;
+
+    const count = this.view.getUint16(offset, this.little);
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      if (entryOffset + 12 > this.view.byteLength) break;
+      const tag = this.view.getUint16(entryOffset, this.little);
+      const type = this.view.getUint16(entryOffset + 2, this.little);
+      const valueCount = this.view.getUint32(entryOffset + 4, this.little);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      const valueOffset = size > 4 ? this.start + this.view.getUint32(entryOffset + 8, this.little) : entryOffset + 8;
+      if (valueOffset + size > this.view.byteLength) continue;
+      entries.set(tag, { type, count: valueCount, entryOffset, valueOffset });
+    }
+    return entries;
+  }
+
+  pointer(entry: IfdEntry | undefined): number | undefined {
+    return entry ? this.start + this.view.getUint32(entry.valueOffset, this.little) : undefined;
+  }
+
+  string(entry: IfdEntry | undefined): string | undefined {
+    if (!entry) return undefined;
+    const raw = new Uint8Array(this.view.buffer, this.view.byteOffset + entry.valueOffset, entry.count);
+    const text = new TextDecoder().decode(raw).replace(/\0+$/, '').trim();
+    return text || undefined;
+  }
+
+  numbers(entry: IfdEntry | undefined): number[] {
+    if (!entry) return [];
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const at = entry.valueOffset + i * (TYPE_SIZES[entry.type] ?? 1);
+      switch (entry.type) {
+        case 1:
+        case 7:
+          values.push(this.view.getUint8(at));
+          break;
+        case 3:
+          values.push(this.view.getUint16(at, this.little));
+          break;
+        case 4:
+          values.push(this.view.getUint32(at, this.little));
+          break;
+        case 9:
+          values.push(this.view.getInt32(at, this.little));
+          break;
+        case 5:
+          values.push(this.view.getUint32(at, this.little) / (this.view.getUint32(at + 4, this.little) || 1));
+          break;
+        case 10:
+          values.push(this.view.getInt32(at, this.little) / (this.view.getInt32(at + 4, this.little) || 1));
+          break;
+      }
+    }
+    return values;
+  }
+
+  number(entry: IfdEntry | undefined): number | undefined {
+    return this.numbers(entry)[0];
+  }
+
+  setShort(offset: number, value: number) {
+    this.view.setUint16(offset, value, this.little);
+  }
+}
+
+const toDegrees = ([degrees = 0, minutes = 0, seconds = 0]: number[]) => degrees + minutes / 60 + seconds / 3600;
+
+const readGps = (tiff: TiffReader, offset: number): GpsPosition | undefined => {
+  const gps = tiff.readIfd(offset);
+  const latitude = tiff.numbers(gps.get(0x0002));
+  const longitude = tiff.numbers(gps.get(0x0004));
+  if (latitude.length === 0 || longitude.length === 0) return undefined;
+
+  const altitude = tiff.number(gps.get(0x0006));
+  const belowSeaLevel = tiff.number(gps.get(0x0005)) === 1;
+  return {
+    latitude: toDegrees(latitude) * (tiff.string(gps.get(0x0001)) === 'S' ? -1 : 1),
+    longitude: toDegrees(longitude) * (tiff.string(gps.get(0x0003)) === 'W' ? -1 : 1),
+    altitude: altitude === undefined ? undefined : altitude * (belowSeaLevel ? -1 : 1),
+  };
+};
+
+const EXIF_COLOR_SPACES: Record<number, string> = { 1: 'sRGB', 2: 'Adobe RGB', 0xffff: 'Uncalibrated' };
+
+const readExif = (bytes: Uint8Array, segment: JpegSegment, metadata: ImageMetadata) => {
+  const tiff = new TiffReader(bytes, segment.dataOffset + EXIF_HEADER.length);
+  const ifd0 = tiff.readIfd(tiff.firstIfd());
+
+  metadata.orientation = tiff.number(ifd0.get(0x0112)) ?? 1;
+  metadata.make = tiff.string(ifd0.get(0x010f));
+  metadata.model = tiff.string(ifd0.get(0x0110));
+  metadata.software = tiff.string(ifd0.get(0x0131));
+  metadata.description = tiff.string(ifd0.get(0x010e));
+  metadata.artist = tiff.string(ifd0.get(0x013b));
+  metadata.copyright = tiff.string(ifd0.get(0x8298));
+
+  const exifOffset = tiff.pointer(ifd0.get(0x8769));
+  if (exifOffset !== undefined) {
+    const exif = tiff.readIfd(exifOffset);
+    metadata.dateTimeOriginal = tiff.string(exif.get(0x9003)) ?? tiff.string(ifd0.get(0x0132));
+    metadata.exposureTime = tiff.number(exif.get(0x829a));
+    metadata.fNumber = tiff.number(exif.get(0x829d));
+    metadata.iso = tiff.number(exif.get(0x8827));
+    metadata.focalLength = tiff.number(exif.get(0x920a));
+    metadata.lens = tiff.string(exif.get(0xa434));
+    metadata.colorProfile = EXIF_COLOR_SPACES[tiff.number(exif.get(0xa001)) ?? 0];
+  }
+
+  const gpsOffset = tiff.pointer(ifd0.get(0x8825));
+  if (gpsOffset !== undefined) {
+    metadata.gps = readGps(tiff, gpsOffset);
+  }
+};
+
+// --- IPTC -----------------------------------------------------------------
+
+const IPTC_DATASETS: Record<number, string> = {
+  5: 'Object Name',
+  25: 'Keywords',
+  55: 'Date Created',
+  80: 'By-line',
+  90: 'City',
+  95: 'Province/State',
+  101: 'Country',
+  105: 'Headline',
+  110: 'Credit',
+  115: 'Source',
+  116: 'Copyright Notice',
+  120: 'Caption/Abstract',
+};
+
+const readIptc = (bytes: Uint8Array, segment: JpegSegment, metadata: ImageMetadata) => {
+  const end = segment.dataOffset + segment.length;
+  let offset = segment.dataOffset + PHOTOSHOP_HEADER.length;
+  const decoder = new TextDecoder();
+
+  // Photoshop image resource blocks; IPTC-IIM is resource 0x0404
+  while (offset + 12 <= end && startsWith(bytes, offset, '8BIM')) {
+    const resourceId = (bytes[offset + 4] << 8) | bytes[offset + 5];
+    const nameLength = bytes[offset + 6];
+    const nameSize = (nameLength + 1) % 2 === 0 ? nameLength + 1 : nameLength + 2;
+    const sizeOffset = offset + 6 + nameSize;
+    const size = ((bytes[sizeOffset] << 24) | (bytes[sizeOffset + 1] << 16) | (bytes[sizeOffset + 2] << 8) | bytes[sizeOffset + 3]) >>> 0;
+    const dataStart = sizeOffset + 4;
+
+    if (resourceId === 0x0404) {
+      let at = dataStart;
+      while (at + 5 <= dataStart + size && bytes[at] === 0x1c) {
+        const record = bytes[at + 1];
+        const dataset = bytes[at + 2];
+        const length = (bytes[at + 3] << 8) | bytes[at + 4];
+        const value = decoder.decode(bytes.subarray(at + 5, at + 5 + length)).trim();
+        const name = IPTC_DATASETS[dataset];
+        if (record === 2 && name && value) {
+          if (dataset === 25) {
+            metadata.keywords.push(value);
+          }
+          metadata.iptc[name] = metadata.iptc[name] ? `${metadata.iptc[name]}, ${value}` : value;
+        }
+        at += 5 + length;
+      }
+    }
+
+    offset = dataStart + size + (size % 2);
+  }
+
+  // IPTC fills in whatever EXIF didn't have
+  metadata.artist ??= metadata.iptc['By-line'];
+  metadata.copyright ??= metadata.iptc['Copyright Notice'];
+  metadata.description ??= metadata.iptc['Caption/Abstract'];
+};
+
+// --- XMP ------------------------------------------------------------------
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+
+// Values of an XMP property, whether written as an rdf list or a simple element
+const readXmpValues = (xmp: string, property: string): string[] => {
+  const match = xmp.match(new RegExp(`<${property}[^>]*>([\\s\\S]*?)</${property}>`));
+  if (!match) {
+    const attribute = xmp.match(new RegExp(`${property}="([^"]*)"`));
+    return attribute ? [decodeXml(attribute[1])] : [];
+  }
+  const items = [...match[1].matchAll(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g)].map(item => decodeXml(item[1]));
+  return items.length > 0 ? items : [decodeXml(match[1])];
+};
+
+const readXmp = (bytes: Uint8Array, segment: JpegSegment, metadata: ImageMetadata) => {
+  const start = segment.dataOffset + XMP_HEADER.length;
+  const xmp = new TextDecoder().decode(bytes.subarray(start, segment.dataOffset + segment.length));
+  metadata.xmp = xmp;
+
+  metadata.artist ??= readXmpValues(xmp, 'dc:creator')[0];
+  metadata.copyright ??= readXmpValues(xmp, 'dc:rights')[0];
+  metadata.description ??= readXmpValues(xmp, 'dc:description')[0];
+  if (metadata.keywords.length === 0) {
+    metadata.keywords = readXmpValues(xmp, 'dc:subject');
+  }
+};
+
+// --- Size and color profile ----------------------------------------------
+
+const ICC_HEADER = 'ICC_PROFILE\0';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// The 'desc' tag of an ICC profile, in either the v2 or the v4 (multi-language) layout
+const readIccDescription = (profile: Uint8Array): string | undefined => {
+  if (profile.length < 132) return undefined;
+  const tagCount = readUint32(profile, 128);
+  for (let i = 0; i < tagCount && 132 + i * 12 + 12 <= profile.length; i++) {
+    const entry = 132 + i * 12;
+    if (!startsWith(profile, entry, 'desc')) continue;
+
+    const offset = readUint32(profile, entry + 4);
+    if (startsWith(profile, offset, 'desc')) {
+      const length = readUint32(profile, offset + 8);
+      return new TextDecoder().decode(profile.subarray(offset + 12, offset + 12 + length)).replace(/\0+$/, '').trim() || undefined;
+    }
+    if (startsWith(profile, offset, 'mluc')) {
+      const length = readUint32(profile, offset + 20);
+      const start = offset + readUint32(profile, offset + 24);
+      return new TextDecoder('utf-16be').decode(profile.subarray(start, start + length)).replace(/\0+$/, '').trim() || undefined;
+    }
+  }
+  return undefined;
+};
+
+const readJpegFrame = (bytes: Uint8Array, segments: JpegSegment[], metadata: ImageMetadata) => {
+  // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+  const frame = segments.find(segment =>
+    segment.marker >= 0xc0 && segment.marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(segment.marker)
+  );
+  if (frame) {
+    metadata.height = (bytes[frame.dataOffset + 1] << 8) | bytes[frame.dataOffset + 2];
+    metadata.width = (bytes[frame.dataOffset + 3] << 8) | bytes[frame.dataOffset + 4];
+  }
+
+  // Only the first chunk is needed, the tag table sits at the start of the profile
+  const icc = segments.find(segment => segment.marker === 0xe2 && startsWith(bytes, segment.dataOffset, ICC_HEADER));
+  if (icc) {
+    const start = icc.dataOffset + ICC_HEADER.length + 2; // skip chunk number and count
+    metadata.colorProfile = readIccDescription(bytes.subarray(start, icc.dataOffset + icc.length)) ?? 'Embedded ICC profile';
+  }
+};
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+const readPng = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const data = offset + 8;
+    if (startsWith(bytes, offset + 4, 'IHDR')) {
+      metadata.width = readUint32(bytes, data);
+      metadata.height = readUint32(bytes, data + 4);
+    } else if (startsWith(bytes, offset + 4, 'iCCP')) {
+      // The profile itself is compressed, but its name comes first in plain text
+      const nameEnd = bytes.indexOf(0, data);
+      metadata.colorProfile = new TextDecoder('latin1').decode(bytes.subarray(data, nameEnd)) || 'Embedded ICC profile';
+    } else if (startsWith(bytes, offset + 4, 'sRGB')) {
+      metadata.colorProfile ??= 'sRGB';
+    } else if (startsWith(bytes, offset + 4, 'IDAT')) {
+      break;
+    }
+    offset = data + length + 4;
+  }
+};
+
+// --- Public API -----------------------------------------------------------
+
+export const readMetadataFromBytes = (bytes: Uint8Array): ImageMetadata => {
+  const metadata: ImageMetadata = { orientation: 1, keywords: [], iptc: {} };
+
+  if (isPng(bytes)) {
+    readPng(bytes, metadata);
+    return metadata;
+  }
+
+  const segments = readJpegSegments(bytes);
+  // EXIF first, then let IPTC and XMP fill gaps
+  segments.filter(segment => isExifSegment(bytes, segment)).forEach(segment => readExif(bytes, segment, metadata));
+  segments.filter(segment => isIptcSegment(bytes, segment)).forEach(segment => readIptc(bytes, segment, metadata));
+  segments.filter(segment => isXmpSegment(bytes, segment)).forEach(segment => readXmp(bytes, segment, metadata));
+  readJpegFrame(bytes, segments, metadata);
+
+  return metadata;
+};
+
+export const readFileHeader = async (file: Blob): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+
+export const readImageMetadata = async (file: File): Promise<ImageMetadata> => {
+  try {
+    const metadata = readMetadataFromBytes(await readFileHeader(file));
+    if (metadata.width === undefined) {
+      // Formats without a parser here (WebP, GIF...) still have a size once decoded
+      const bitmap = await createImageBitmap(file).catch(() => null);
+      if (bitmap) {
+        metadata.width = bitmap.width;
+        metadata.height = bitmap.height;
+        bitmap.close();
+      }
+    }
+    return metadata;
+  } catch (error) {
+    console.error('Error reading image metadata:', error);
+    return { orientation: 1, keywords: [], iptc: {} };
+  }
+};
+
+// Absolute offset of the orientation value in the header, if there is one
+const findOrientationOffset = (bytes: Uint8Array, segment: JpegSegment): { offset: number; tiff: TiffReader } | null => {
+  const tiff = new TiffReader(bytes, segment.dataOffset + EXIF_HEADER.length);
+  const entry = tiff.readIfd(tiff.firstIfd()).get(0x0112);
+  return entry ? { offset: entry.valueOffset, tiff } : null;
+};
+
+// Set the EXIF orientation to upright in place, once the pixels have been rotated
+export const resetOrientation = (bytes: Uint8Array): void => {
+  readJpegSegments(bytes)
+    .filter(segment => isExifSegment(bytes, segment))
+    .forEach(segment => {
+      const found = findOrientationOffset(bytes, segment);
+      found?.tiff.setShort(found.offset, 1);
+    });
+};
+
+/**
+ * Split a JPEG into its raw pixels and its EXIF orientation.
+ * The returned blob has orientation reset to 1, so every decoder draws it the same way
+ * and the caller applies the orientation itself.
+ */
+export const normalizeOrientation = async (file: Blob): Promise<{ blob: Blob; orientation: number }> => {
+  const header = await readFileHeader(file);
+  try {
+    const { orientation } = readMetadataFromBytes(header);
+    if (orientation === 1) {
+      return { blob: file, orientation };
+    }
+
+    resetOrientation(header);
+    return { blob: new Blob([header, file.slice(header.length)], { type: file.type }), orientation };
+  } catch (error) {
+    // A truncated EXIF segment shouldn't stop the photo itself from loading
+    console.error('Error reading image orientation:', error);
+    return { blob: file, orientation: 1 };
+  }
+};
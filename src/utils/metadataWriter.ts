@@ -0,0 +1,269 @@
+import { ImageMetadata, MetadataOptions } from '../types';
+import {
+  isExifSegment,
+  isIptcSegment,
+  isXmpSegment,
+  readFileHeader,
+  readJpegSegments,
+  readMetadataFromBytes,
+  resetOrientation,
+} from './metadata';
+
+const MAX_SEGMENT_DATA = 0xffff - 2;
+
+const encoder = new TextEncoder();
+
+const createSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+  const segment = new Uint8Array(payload.length + 4);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  segment[2] = (payload.length + 2) >> 8;
+  segment[3] = (payload.length + 2) & 0xff;
+  segment.set(payload, 4);
+  return segment;
+};
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+};
+
+// --- EXIF -----------------------------------------------------------------
+
+interface TiffEntry {
+  tag: number;
+  type: number; // 1 byte, 2 ascii, 3 short, 4 long, 5 rational, 7 undefined
+  count: number;
+  data: Uint8Array; // big-endian value bytes
+}
+
+const asciiEntry = (tag: number, text: string): TiffEntry => {
+  const data = encoder.encode(`${text}\0`);
+  return { tag, type: 2, count: data.length, data };
+};
+
+const shortEntry = (tag: number, value: number): TiffEntry => {
+  const data = new Uint8Array(2);
+  new DataView(data.buffer).setUint16(0, value);
+  return { tag, type: 3, count: 1, data };
+};
+
+const longEntry = (tag: number, value: number): TiffEntry => {
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, value);
+  return { tag, type: 4, count: 1, data };
+};
+
+const byteEntry = (tag: number, values: number[], type = 1): TiffEntry => ({
+  tag,
+  type,
+  count: values.length,
+  data: new Uint8Array(values),
+});
+
+const toRational = (value: number): [number, number] => {
+  // Shutter speeds read better as 1/250 than as 4/1000
+  if (value > 0 && value < 1 && Math.abs(1 / value - Math.round(1 / value)) < 0.01) {
+    return [1, Math.round(1 / value)];
+  }
+  return [Math.round(value * 1000), 1000];
+};
+
+const rationalEntry = (tag: number, values: number[]): TiffEntry => {
+  const data = new Uint8Array(values.length * 8);
+  const view = new DataView(data.buffer);
+  values.forEach((value, i) => {
+    const [numerator, denominator] = toRational(Math.abs(value));
+    view.setUint32(i * 8, numerator);
+    view.setUint32(i * 8 + 4, denominator);
+  });
+  return { tag, type: 5, count: values.length, data };
+};
+
+const ifdSize = (entries: TiffEntry[]): number =>
+  2 + entries.length * 12 + 4 +
+  entries.reduce((sum, entry) => sum + (entry.data.length > 4 ? entry.data.length + (entry.data.length % 2) : 0), 0);
+
+// Write an IFD with its out-of-line values directly after it
+const writeIfd = (tiff: Uint8Array, offset: number, entries: TiffEntry[]) => {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+  view.setUint16(offset, sorted.length);
+  sorted.forEach((entry, i) => {
+    const at = offset + 2 + i * 12;
+    view.setUint16(at, entry.tag);
+    view.setUint16(at + 2, entry.type);
+    view.setUint32(at + 4, entry.count);
+    if (entry.data.length <= 4) {
+      tiff.set(entry.data, at + 8);
+    } else {
+      view.setUint32(at + 8, dataOffset);
+      tiff.set(entry.data, dataOffset);
+      dataOffset += entry.data.length + (entry.data.length % 2);
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0); // no next IFD
+};
+
+const toDms = (degrees: number): number[] => {
+  const absolute = Math.abs(degrees);
+  const whole = Math.floor(absolute);
+  const minutes = Math.floor((absolute - whole) * 60);
+  const seconds = (absolute - whole - minutes / 60) * 3600;
+  return [whole, minutes, Math.round(seconds * 1000) / 1000];
+};
+
+const buildExif = (metadata: ImageMetadata, fields: Set<string>, author?: string, copyright?: string): Uint8Array => {
+  // The exported pixels are always upright
+  const ifd0: TiffEntry[] = [shortEntry(0x0112, 1)];
+  const exif: TiffEntry[] = [];
+  const gps: TiffEntry[] = [];
+
+  if (fields.has('camera')) {
+    if (metadata.make) ifd0.push(asciiEntry(0x010f, metadata.make));
+    if (metadata.model) ifd0.push(asciiEntry(0x0110, metadata.model));
+    if (metadata.lens) exif.push(asciiEntry(0xa434, metadata.lens));
+  }
+  if (fields.has('exposure')) {
+    if (metadata.exposureTime) exif.push(rationalEntry(0x829a, [metadata.exposureTime]));
+    if (metadata.fNumber) exif.push(rationalEntry(0x829d, [metadata.fNumber]));
+    if (metadata.iso) exif.push(shortEntry(0x8827, Math.min(0xffff, metadata.iso)));
+    if (metadata.focalLength) exif.push(rationalEntry(0x920a, [metadata.focalLength]));
+  }
+  if (fields.has('captureDate') && metadata.dateTimeOriginal) {
+    exif.push(asciiEntry(0x9003, metadata.dateTimeOriginal));
+  }
+  if (fields.has('description') && metadata.description) {
+    ifd0.push(asciiEntry(0x010e, metadata.description));
+  }
+  if (author) ifd0.push(asciiEntry(0x013b, author));
+  if (copyright) ifd0.push(asciiEntry(0x8298, copyright));
+
+  if (fields.has('gps') && metadata.gps) {
+    const { latitude, longitude, altitude } = metadata.gps;
+    gps.push(
+      byteEntry(0x0000, [2, 3, 0, 0]),
+      asciiEntry(0x0001, latitude < 0 ? 'S' : 'N'),
+      rationalEntry(0x0002, toDms(latitude)),
+      asciiEntry(0x0003, longitude < 0 ? 'W' : 'E'),
+      rationalEntry(0x0004, toDms(longitude))
+    );
+    if (altitude !== undefined) {
+      gps.push(byteEntry(0x0005, [altitude < 0 ? 1 : 0]), rationalEntry(0x0006, [altitude]));
+    }
+  }
+
+  if (exif.length > 0) exif.push(byteEntry(0x9000, [...encoder.encode('0232')], 7));
+
+  // Sub-IFD pointers don't change the size of IFD0, so lay everything out first
+  if (exif.length > 0) ifd0.push(longEntry(0x8769, 0));
+  if (gps.length > 0) ifd0.push(longEntry(0x8825, 0));
+  const exifOffset = 8 + ifdSize(ifd0);
+  const gpsOffset = exifOffset + (exif.length > 0 ? ifdSize(exif) : 0);
+  const pointers = ifd0.filter(entry => entry.tag === 0x8769 || entry.tag === 0x8825);
+  pointers.forEach(entry => new DataView(entry.data.buffer).setUint32(0, entry.tag === 0x8769 ? exifOffset : gpsOffset));
+
+  const tiff = new Uint8Array(gpsOffset + (gps.length > 0 ? ifdSize(gps) : 0));
+  tiff.set([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]); // big-endian, first IFD at 8
+  writeIfd(tiff, 8, ifd0);
+  if (exif.length > 0) writeIfd(tiff, exifOffset, exif);
+  if (gps.length > 0) writeIfd(tiff, gpsOffset, gps);
+
+  return concatBytes(encoder.encode('Exif\0\0'), tiff);
+};
+
+// --- XMP ------------------------------------------------------------------
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildXmp = (creator?: string, rights?: string, description?: string, keywords: string[] = []): Uint8Array | null => {
+  const properties: string[] = [];
+  if (creator) {
+    properties.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXml(creator)}</rdf:li></rdf:Seq></dc:creator>`);
+  }
+  if (rights) {
+    properties.push(`<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(rights)}</rdf:li></rdf:Alt></dc:rights>`);
+  }
+  if (description) {
+    properties.push(`<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(description)}</rdf:li></rdf:Alt></dc:description>`);
+  }
+  if (keywords.length > 0) {
+    const items = keywords.map(keyword => `<rdf:li>${escapeXml(keyword)}</rdf:li>`).join('');
+    properties.push(`<dc:subject><rdf:Bag>${items}</rdf:Bag></dc:subject>`);
+  }
+  if (properties.length === 0) return null;
+
+  const packet =
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+    properties.join('') +
+    '</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="w"?>';
+
+  return encoder.encode(`http://ns.adobe.com/xap/1.0/\0${packet}`);
+};
+
+// --- Public API -----------------------------------------------------------
+
+// Copy the original EXIF, XMP and IPTC segments as they are, apart from the orientation
+const copyOriginalSegments = (header: Uint8Array): Uint8Array[] => {
+  const copy = header.slice();
+  resetOrientation(copy);
+  return readJpegSegments(copy)
+    .filter(segment => isExifSegment(copy, segment) || isXmpSegment(copy, segment) || isIptcSegment(copy, segment))
+    .map(segment => copy.slice(segment.offset, segment.dataOffset + segment.length));
+};
+
+/**
+ * JPEG APP segments to write into an export of this file.
+ * 'keep' copies the original metadata, 'select' rebuilds it from the chosen fields with the
+ * team author and copyright taking precedence, and 'strip' writes nothing.
+ */
+export const buildMetadataSegments = async (
+  original: File,
+  options: MetadataOptions,
+  metadata?: ImageMetadata
+): Promise<Uint8Array[]> => {
+  if (options.mode === 'strip') return [];
+
+  const header = await readFileHeader(original);
+  if (options.mode === 'keep') {
+    return copyOriginalSegments(header);
+  }
+
+  const source = metadata ?? readMetadataFromBytes(header);
+  const fields = new Set<string>(options.fields);
+  const keepAuthorship = fields.has('authorship');
+  const author = options.author.trim() || (keepAuthorship ? source.artist : undefined);
+  const copyright = options.copyright.trim() || (keepAuthorship ? source.copyright : undefined);
+  const description = fields.has('description') ? source.description : undefined;
+  const keywords = fields.has('description') ? source.keywords : [];
+
+  const payloads = [
+    buildExif(source, fields, author, copyright),
+    buildXmp(author, copyright, description, keywords),
+  ];
+  return payloads
+    .filter((payload): payload is Uint8Array => payload !== null && payload.length <= MAX_SEGMENT_DATA)
+    .map(payload => createSegment(0xe1, payload));
+};
+
+// Insert APP segments into an encoded JPEG, after SOI and the JFIF header
+export const injectMetadata = async (jpeg: Blob, segments: Uint8Array[]): Promise<Blob> => {
+  if (segments.length === 0) return jpeg;
+
+  const header = await readFileHeader(jpeg);
+  const jfif = readJpegSegments(header).filter(segment => segment.marker === 0xe0);
+  const insertAt = jfif.length > 0 ? jfif[jfif.length - 1].dataOffset + jfif[jfif.length - 1].length : 2;
+
+  return new Blob([jpeg.slice(0, insertAt), ...segments, jpeg.slice(insertAt)], { type: jpeg.type });
+};
@@ -0,0 +1,308 @@
+import JSZip from 'jszip';
+import {
+  ColorLut,
+  CropRect,
+  EditorState,
+  FitMode,
+  FormatOptions,
+  FormatPreset,
+  ImagePlacement,
+  ImageTransform,
+  ProcessedImage,
+  defaultFilters,
+  defaultFormatOptions,
+  defaultPlacement,
+  defaultTransform,
+  formatPresets,
+} from '../types';
+import { toFilters } from './filterLooks';
+import { getLayerLutIds } from './filterRegistry';
+import { decodeLutData, encodeLutData, getColorLut, restoreColorLuts } from './colorLuts';
+import { toBackground, toCustomPreset } from './customPresets';
+import { FILE_STORE, SESSION_STORE, openDatabase, requestResult, transactionDone } from './database';
+
+const SESSION_KEY = 'current';
+
+const PROJECT_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+const fitModes: FitMode[] = ['contain', 'cover', 'stretch', 'none'];
+const rotations: ImageTransform['rotation'][] = [0, 90, 180, 270];
+
+// Everything about an image except the pixels, which live next to the manifest
+interface ImageEntry {
+  id: string;
+  name: string;
+  type: string;
+  lastModified: number;
+  path?: string; // location of the original inside a project file
+  filters: ProcessedImage['filters'];
+  overrideFilters: boolean;
+  placement: ImagePlacement;
+  transform: ImageTransform;
+}
+
+// An imported LUT the layers grade with; the table itself is stored next to the manifest
+interface LutEntry {
+  id: string;
+  name: string;
+  size: number;
+  path: string;
+}
+
+interface ProjectManifest {
+  version: number;
+  globalFilters: EditorState['globalFilters'];
+  formatOptions: FormatOptions;
+  images: ImageEntry[];
+  luts?: LutEntry[]; // only in project files; sessions share the browser's LUT store
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const createImageId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const toManifest = (state: EditorState, withPaths: boolean): ProjectManifest => ({
+  version: PROJECT_VERSION,
+  globalFilters: state.globalFilters,
+  formatOptions: state.formatOptions,
+  images: state.images.map((image, index) => ({
+    id: image.id,
+    name: image.original.name,
+    type: image.original.type,
+    lastModified: image.original.lastModified,
+    path: withPaths ? `images/${index + 1}_${image.original.name}` : undefined,
+    filters: image.filters,
+    overrideFilters: image.overrideFilters,
+    placement: image.placement,
+    transform: image.transform,
+  })),
+});
+
+// Ids of the LUTs the global and per-image layers grade with
+const getUsedLutIds = (state: EditorState): string[] => Array.from(new Set([
+  ...getLayerLutIds(state.globalFilters),
+  ...state.images.flatMap(image => getLayerLutIds(image.filters)),
+]));
+
+// LUTs the layers refer to that aren't imported here, whose grading is skipped
+export const getMissingLutIds = (state: EditorState): string[] =>
+  getUsedLutIds(state).filter(id => !getColorLut(id));
+
+// Rebuild settings from untrusted JSON, falling back to defaults for anything we don't understand
+
+const toPlacement = (value: unknown): ImagePlacement => {
+  const raw = isObject(value) ? value : {};
+  return {
+    offsetX: isNumber(raw.offsetX) ? raw.offsetX : defaultPlacement.offsetX,
+    offsetY: isNumber(raw.offsetY) ? raw.offsetY : defaultPlacement.offsetY,
+    zoom: isNumber(raw.zoom) && raw.zoom > 0 ? raw.zoom : defaultPlacement.zoom,
+  };
+};
+
+const toCrop = (value: unknown): CropRect | null => {
+  if (!isObject(value) || !isNumber(value.x) || !isNumber(value.y) || !isNumber(value.width) || !isNumber(value.height)) {
+    return null;
+  }
+  return { x: value.x, y: value.y, width: value.width, height: value.height };
+};
+
+const toTransform = (value: unknown): ImageTransform => {
+  const raw = isObject(value) ? value : {};
+  return {
+    rotation: rotations.includes(raw.rotation as ImageTransform['rotation'])
+      ? (raw.rotation as ImageTransform['rotation'])
+      : defaultTransform.rotation,
+    straighten: isNumber(raw.straighten) ? raw.straighten : defaultTransform.straighten,
+    flipH: raw.flipH === true,
+    flipV: raw.flipV === true,
+    crop: toCrop(raw.crop),
+  };
+};
+
+// Built-in presets follow the current definitions; custom ones travel inside the project
+const toPreset = (value: unknown): FormatPreset =>
+  formatPresets.find(preset => isObject(value) && preset.id === value.id) ?? toCustomPreset(value) ?? defaultFormatOptions.preset;
+
+const toFormatOptions = (value: unknown): FormatOptions => {
+  if (!isObject(value)) return defaultFormatOptions;
+  const preset = toPreset(value.preset);
+  return {
+    backgroundColor: typeof value.backgroundColor === 'string' ? value.backgroundColor : defaultFormatOptions.backgroundColor,
+    background: toBackground(value.background),
+    fitMode: fitModes.includes(value.fitMode as FitMode) ? (value.fitMode as FitMode) : defaultFormatOptions.fitMode,
+    size: isNumber(value.size) && value.size > 0 ? value.size : defaultFormatOptions.size,
+    aspectRatio: preset.aspectRatio,
+    preset,
+  };
+};
+
+const toImageEntry = (value: unknown): ImageEntry | null => {
+  if (!isObject(value) || typeof value.name !== 'string') return null;
+  return {
+    id: typeof value.id === 'string' ? value.id : createImageId(),
+    name: value.name,
+    type: typeof value.type === 'string' ? value.type : '',
+    lastModified: isNumber(value.lastModified) ? value.lastModified : Date.now(),
+    path: typeof value.path === 'string' ? value.path : undefined,
+    filters: toFilters(value.filters) ?? { ...defaultFilters },
+    overrideFilters: value.overrideFilters === true,
+    placement: toPlacement(value.placement),
+    transform: toTransform(value.transform),
+  };
+};
+
+const toLutEntry = (value: unknown): LutEntry | null => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.path !== 'string' || !isNumber(value.size)) {
+    return null;
+  }
+  return {
+    id: value.id,
+    name: typeof value.name === 'string' ? value.name : 'Imported LUT',
+    size: value.size,
+    path: value.path,
+  };
+};
+
+const toImage = (entry: ImageEntry, file: File, id: string): ProcessedImage => ({
+  id,
+  original: file,
+  originalUrl: URL.createObjectURL(file),
+  filters: entry.filters,
+  overrideFilters: entry.overrideFilters,
+  placement: entry.placement,
+  transform: entry.transform,
+});
+
+/**
+ * Persist the session to IndexedDB. Originals are keyed by image id and only written once,
+ * so saving after every edit just rewrites the small manifest.
+ */
+export const saveSession = async (state: EditorState): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, FILE_STORE], 'readwrite');
+  const files = transaction.objectStore(FILE_STORE);
+
+  transaction.objectStore(SESSION_STORE).put(toManifest(state, false), SESSION_KEY);
+
+  const storedIds = new Set((await requestResult(files.getAllKeys())).map(String));
+  const currentIds = new Set(state.images.map(image => image.id));
+  storedIds.forEach((id) => {
+    if (!currentIds.has(id)) files.delete(id);
+  });
+  state.images.forEach((image) => {
+    if (!storedIds.has(image.id)) files.put(image.original, image.id);
+  });
+
+  await transactionDone(transaction);
+};
+
+// The last saved session, or null on a first visit
+export const loadSession = async (): Promise<EditorState | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, FILE_STORE], 'readonly');
+  const manifest: unknown = await requestResult(transaction.objectStore(SESSION_STORE).get(SESSION_KEY));
+  if (!isObject(manifest)) return null;
+
+  const entries = (Array.isArray(manifest.images) ? manifest.images : [])
+    .map(toImageEntry)
+    .filter((entry): entry is ImageEntry => entry !== null);
+  const files = transaction.objectStore(FILE_STORE);
+  const originals: unknown[] = await Promise.all(entries.map(entry => requestResult(files.get(entry.id))));
+
+  return {
+    globalFilters: toFilters(manifest.globalFilters) ?? { ...defaultFilters },
+    formatOptions: toFormatOptions(manifest.formatOptions),
+    images: entries.flatMap((entry, index) => {
+      const original = originals[index];
+      if (!(original instanceof Blob)) return [];
+      const file = original instanceof File
+        ? original
+        : new File([original], entry.name, { type: entry.type, lastModified: entry.lastModified });
+      return [toImage(entry, file, entry.id)];
+    }),
+  };
+};
+
+// A ZIP with manifest.json, the untouched originals and the LUTs they're graded with, openable on any machine
+export const createProjectFile = async (state: EditorState): Promise<Blob> => {
+  const luts = getUsedLutIds(state)
+    .map(getColorLut)
+    .filter((lut): lut is ColorLut => lut !== null);
+  const manifest: ProjectManifest = {
+    ...toManifest(state, true),
+    luts: luts.map(lut => ({ id: lut.id, name: lut.name, size: lut.size, path: `luts/${lut.id}.bin` })),
+  };
+
+  const zip = new JSZip();
+  zip.file(MANIFEST_NAME, JSON.stringify(manifest, null, 2));
+  manifest.images.forEach((entry, index) => {
+    zip.file(entry.path!, state.images[index].original);
+  });
+  luts.forEach((lut, index) => {
+    zip.file(manifest.luts![index].path, encodeLutData(lut.data));
+  });
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/**
+ * Read a project file written by createProjectFile. Images get fresh ids so they never clash
+ * with ones still held by undo history, while its LUTs keep theirs and are imported if they're new here.
+ * Throws when the file isn't a usable project.
+ */
+export const openProjectFile = async (file: Blob): Promise<EditorState> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('The file is not a PhotoSquare project.');
+  }
+
+  const manifestFile = zip.file(MANIFEST_NAME);
+  if (!manifestFile) {
+    throw new Error('The project has no manifest.json.');
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error('The project manifest is not valid JSON.');
+  }
+  if (!isObject(manifest) || !isNumber(manifest.version) || manifest.version > PROJECT_VERSION) {
+    throw new Error('The project was saved by a newer version of PhotoSquare.');
+  }
+
+  const entries = (Array.isArray(manifest.images) ? manifest.images : [])
+    .map(toImageEntry)
+    .filter((entry): entry is ImageEntry => entry !== null);
+  const images = await Promise.all(entries.map(async (entry) => {
+    const zipped = entry.path ? zip.file(entry.path) : null;
+    if (!zipped) return null;
+    const blob = await zipped.async('blob');
+    const original = new File([blob], entry.name, { type: entry.type, lastModified: entry.lastModified });
+    return toImage(entry, original, createImageId());
+  }));
+
+  const lutEntries = (Array.isArray(manifest.luts) ? manifest.luts : [])
+    .map(toLutEntry)
+    .filter((entry): entry is LutEntry => entry !== null);
+  const luts = await Promise.all(lutEntries.map(async (entry): Promise<ColorLut | null> => {
+    const zipped = zip.file(entry.path);
+    if (!zipped) return null;
+    const data = decodeLutData(await zipped.async('arraybuffer'));
+    return { id: entry.id, name: entry.name, size: entry.size, data };
+  }));
+  // Invalid tables are skipped; their layers show up as missing LUTs
+  await restoreColorLuts(luts.filter((lut): lut is ColorLut => lut !== null));
+
+  return {
+    globalFilters: toFilters(manifest.globalFilters) ?? { ...defaultFilters },
+    formatOptions: toFormatOptions(manifest.formatOptions),
+    images: images.filter((image): image is ProcessedImage => image !== null),
+  };
+};
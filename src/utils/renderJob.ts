@@ -0,0 +1,100 @@
+import { RenderRequest, RenderResult } from '../workers/renderProtocol';
+import { applyOrientation, createFormattedImage } from './imageProcessor';
+import { createCanvas, getContext2d, RenderCanvas } from './canvas';
+import { encodeWithinBudget } from './sizeBudget';
+
+// Decoded sources kept around so re-rendering the same photo skips the decode
+const MAX_CACHED_SOURCES = 4;
+const sourceCache = new Map<string, Promise<ImageBitmap>>();
+
+const decodeUpright = async (source: Blob, orientation: number): Promise<ImageBitmap> => {
+  const bitmap = await createImageBitmap(source);
+  if (orientation === 1) return bitmap;
+
+  const upright = await createImageBitmap(applyOrientation(bitmap, orientation));
+  bitmap.close();
+  return upright;
+};
+
+const decodeSource = (sourceId: string, source: Blob, orientation: number): Promise<ImageBitmap> => {
+  const cached = sourceCache.get(sourceId);
+  if (cached) {
+    // Move to the back so it's evicted last
+    sourceCache.delete(sourceId);
+    sourceCache.set(sourceId, cached);
+    return cached;
+  }
+
+  const decoded = decodeUpright(source, orientation);
+  decoded.catch(() => sourceCache.delete(sourceId));
+  sourceCache.set(sourceId, decoded);
+
+  while (sourceCache.size > MAX_CACHED_SOURCES) {
+    const [oldestId, oldest] = sourceCache.entries().next().value!;
+    sourceCache.delete(oldestId);
+    oldest.then((bitmap) => bitmap.close()).catch(() => {});
+  }
+  return decoded;
+};
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super('Render cancelled');
+    this.name = 'RenderCancelledError';
+  }
+}
+
+// Paint transparent areas with a solid color, for formats or exports without alpha
+export const flattenCanvas = (canvas: RenderCanvas, background?: string): RenderCanvas => {
+  if (!background) return canvas;
+  const flattened = createCanvas(canvas.width, canvas.height);
+  const ctx = getContext2d(flattened);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(canvas, 0, 0);
+  return flattened;
+};
+
+// Let queued messages (such as a cancel) run before starting the next stage
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Render a single image from start to finish.
+ * Runs inside a render worker, or on the main thread when workers aren't available.
+ */
+export const renderImage = async (
+  request: RenderRequest,
+  onProgress: (progress: number) => void,
+  isCancelled: () => boolean
+): Promise<RenderResult> => {
+  const checkpoint = async (progress: number) => {
+    onProgress(progress);
+    await yieldToEventLoop();
+    if (isCancelled()) throw new RenderCancelledError();
+  };
+
+  await checkpoint(0);
+  const source = await decodeSource(request.sourceId, request.source, request.orientation);
+  await checkpoint(0.2);
+
+  const { canvas, photoRect, scale } = await createFormattedImage(
+    source,
+    request.options,
+    request.filters,
+    request.placement,
+    request.transform,
+    request.maxDimension,
+    request.luts
+  );
+  await checkpoint(0.8);
+
+  const encoded = await encodeWithinBudget(
+    flattenCanvas(canvas, request.output.background),
+    request.output,
+    () => checkpoint(0.9)
+  );
+  const bitmap = request.includeBitmap ? await createImageBitmap(canvas) : undefined;
+  onProgress(1);
+
+  return { ...encoded, bitmap, photoRect, scale };
+};
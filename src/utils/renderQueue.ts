@@ -0,0 +1,255 @@
+import { ColorLut, FormatOptions, ImageFilters, ProcessedImage } from '../types';
+import { RenderRequest, RenderResult, RenderWorkerRequest, RenderWorkerResponse } from '../workers/renderProtocol';
+import { renderImage, RenderCancelledError } from './renderJob';
+import { getRenderableSource } from './fileLoader';
+import { getColorLut } from './colorLuts';
+import { getLayerLutIds } from './filterRegistry';
+
+export interface RenderJobOptions {
+  key?: string; // submitting another job with the same key cancels this one
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+  background?: boolean; // run after everything else, e.g. look thumbnails
+}
+
+export interface RenderImageOptions extends RenderJobOptions {
+  output?: RenderRequest['output'];
+  includeBitmap?: boolean;
+  maxDimension?: number; // render a downscaled preview instead of the full export
+}
+
+interface RenderJob {
+  id: number;
+  request: RenderRequest;
+  options: RenderJobOptions;
+  resolve: (result: RenderResult) => void;
+  reject: (error: Error) => void;
+  onAbort: () => void;
+  settled: boolean;
+  cancelled: boolean;
+}
+
+// A worker, or the main thread when workers aren't supported
+interface RenderSlot {
+  worker: Worker | null;
+  job: RenderJob | null;
+  lastSourceId?: string;
+}
+
+const POOL_SIZE = Math.min(4, Math.max(1, (navigator.hardwareConcurrency || 2) - 1));
+
+let pool: RenderSlot[] | null = null;
+const queue: RenderJob[] = [];
+const jobsByKey = new Map<string, RenderJob>();
+let nextJobId = 1;
+
+const supportsWorkers = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const spawnWorker = (slot: RenderSlot): Worker => {
+  const worker = new Worker(new URL('../workers/renderWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => handleMessage(slot, event.data);
+  worker.onerror = (event) => {
+    event.preventDefault();
+    console.error('Render worker crashed:', event.message);
+    worker.terminate();
+    slot.lastSourceId = undefined;
+    const job = slot.job;
+    if (!job) {
+      // Failed while idle (usually it couldn't even load), so render this slot on the main thread
+      slot.worker = null;
+      return;
+    }
+    // Replace the worker and fail whatever it was working on
+    slot.worker = spawnWorker(slot);
+    settle(job, () => job.reject(new Error('Render worker crashed')));
+    release(slot);
+  };
+  return worker;
+};
+
+const getPool = (): RenderSlot[] => {
+  if (pool) return pool;
+
+  if (supportsWorkers()) {
+    try {
+      pool = Array.from({ length: POOL_SIZE }, () => {
+        const slot: RenderSlot = { worker: null, job: null };
+        slot.worker = spawnWorker(slot);
+        return slot;
+      });
+      return pool;
+    } catch (error) {
+      console.error('Could not start render workers, rendering on the main thread:', error);
+    }
+  }
+
+  pool = [{ worker: null, job: null }];
+  return pool;
+};
+
+const settle = (job: RenderJob, finish: () => void): boolean => {
+  if (job.settled) return false;
+  job.settled = true;
+  job.options.signal?.removeEventListener('abort', job.onAbort);
+  if (job.options.key && jobsByKey.get(job.options.key) === job) {
+    jobsByKey.delete(job.options.key);
+  }
+  finish();
+  return true;
+};
+
+const release = (slot: RenderSlot) => {
+  slot.job = null;
+  pump();
+};
+
+const handleMessage = (slot: RenderSlot, message: RenderWorkerResponse) => {
+  const job = slot.job;
+  if (!job || job.id !== message.id) return;
+
+  switch (message.type) {
+    case 'progress':
+      if (!job.settled) job.options.onProgress?.(message.progress);
+      return;
+    case 'done':
+      if (!settle(job, () => job.resolve(message.result))) {
+        message.result.bitmap?.close();
+      }
+      break;
+    case 'cancelled':
+      settle(job, () => job.reject(new RenderCancelledError()));
+      break;
+    case 'error':
+      settle(job, () => job.reject(new Error(message.message)));
+      break;
+  }
+  release(slot);
+};
+
+const start = (slot: RenderSlot, job: RenderJob) => {
+  slot.job = job;
+  slot.lastSourceId = job.request.sourceId;
+
+  if (slot.worker) {
+    const message: RenderWorkerRequest = { type: 'render', id: job.id, request: job.request };
+    slot.worker.postMessage(message);
+    return;
+  }
+
+  renderImage(
+    job.request,
+    (progress) => {
+      if (!job.settled) job.options.onProgress?.(progress);
+    },
+    () => job.cancelled
+  )
+    .then(
+      (result) => {
+        if (!settle(job, () => job.resolve(result))) {
+          result.bitmap?.close();
+        }
+      },
+      (error) => {
+        settle(job, () => job.reject(error instanceof Error ? error : new Error(String(error))));
+      }
+    )
+    .finally(() => release(slot));
+};
+
+const pump = () => {
+  const slots = getPool();
+  while (queue.length > 0) {
+    const idle = slots.filter((slot) => !slot.job);
+    if (idle.length === 0) return;
+
+    const job = queue.shift()!;
+    // Prefer a worker that already has this photo decoded
+    const slot = idle.find((s) => s.lastSourceId === job.request.sourceId) ?? idle[0];
+    start(slot, job);
+  }
+};
+
+const cancel = (job: RenderJob) => {
+  if (!settle(job, () => job.reject(new RenderCancelledError()))) return;
+
+  const queuedIndex = queue.indexOf(job);
+  if (queuedIndex >= 0) {
+    queue.splice(queuedIndex, 1);
+    return;
+  }
+
+  // Already running: ask it to stop at its next checkpoint
+  job.cancelled = true;
+  const slot = getPool().find((s) => s.job === job);
+  if (slot?.worker) {
+    const message: RenderWorkerRequest = { type: 'cancel', id: job.id };
+    slot.worker.postMessage(message);
+  }
+};
+
+export const isRenderCancelled = (error: unknown): boolean => error instanceof RenderCancelledError;
+
+/**
+ * Queue a render on the shared worker pool.
+ * Rejects with a cancellation error (see isRenderCancelled) when superseded or aborted.
+ */
+export const renderInQueue = (request: RenderRequest, options: RenderJobOptions = {}): Promise<RenderResult> => {
+  if (options.signal?.aborted) {
+    return Promise.reject(new RenderCancelledError());
+  }
+
+  return new Promise<RenderResult>((resolve, reject) => {
+    const job: RenderJob = {
+      id: nextJobId++,
+      request,
+      options,
+      resolve,
+      reject,
+      onAbort: () => cancel(job),
+      settled: false,
+      cancelled: false,
+    };
+
+    if (options.key) {
+      const previous = jobsByKey.get(options.key);
+      if (previous) cancel(previous);
+      jobsByKey.set(options.key, job);
+    }
+    options.signal?.addEventListener('abort', job.onAbort);
+
+    // Foreground jobs jump ahead of queued background work
+    const firstBackground = options.background ? -1 : queue.findIndex((queued) => queued.options.background);
+    if (firstBackground >= 0) {
+      queue.splice(firstBackground, 0, job);
+    } else {
+      queue.push(job);
+    }
+    pump();
+  });
+};
+
+// Render a photo with its own placement and crop
+export const renderProcessedImage = async (
+  image: ProcessedImage,
+  formatOptions: FormatOptions,
+  filters: ImageFilters,
+  options: RenderImageOptions = {}
+): Promise<RenderResult> => {
+  const { blob, orientation } = await getRenderableSource(image.original);
+  return renderInQueue(
+    {
+      sourceId: image.id,
+      source: blob,
+      orientation,
+      options: formatOptions,
+      filters,
+      luts: getLayerLutIds(filters).map(getColorLut).filter((lut): lut is ColorLut => lut !== null),
+      placement: image.placement,
+      transform: image.transform,
+      output: options.output ?? { type: 'image/png' },
+      includeBitmap: options.includeBitmap ?? false,
+      maxDimension: options.maxDimension ?? 0,
+    },
+    options
+  );
+};
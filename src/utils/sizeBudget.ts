@@ -0,0 +1,99 @@
+import { RenderRequest } from '../workers/renderProtocol';
+import { canvasToBlob, createCanvas, getContext2d, RenderCanvas } from './canvas';
+
+export interface BudgetedBlob {
+  blob: Blob;
+  width: number;
+  height: number;
+  quality?: number;
+  withinLimit: boolean;
+}
+
+// Below this, shrinking the image looks better than crushing the quality further
+const MIN_QUALITY_WITH_DOWNSCALE = 0.4;
+const MIN_QUALITY = 0.05;
+const QUALITY_STEPS = 6;
+const MAX_DOWNSCALES = 6;
+const MIN_DIMENSION = 16;
+
+const resizeCanvas = (canvas: RenderCanvas, factor: number): RenderCanvas => {
+  const resized = createCanvas(
+    Math.max(1, Math.round(canvas.width * factor)),
+    Math.max(1, Math.round(canvas.height * factor))
+  );
+  const ctx = getContext2d(resized);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvas, 0, 0, resized.width, resized.height);
+  return resized;
+};
+
+/**
+ * Encode a canvas, searching quality (and optionally size) until it fits output.maxBytes.
+ * Lossless formats can only be downscaled. The result is the best attempt even when it doesn't fit.
+ */
+export const encodeWithinBudget = async (
+  canvas: RenderCanvas,
+  output: RenderRequest['output'],
+  checkpoint: () => Promise<void>
+): Promise<BudgetedBlob> => {
+  const encode = (target: RenderCanvas, quality?: number) => canvasToBlob(target, output.type, quality);
+  const result = (blob: Blob, target: RenderCanvas, quality: number | undefined, withinLimit: boolean): BudgetedBlob =>
+    ({ blob, width: target.width, height: target.height, quality, withinLimit });
+
+  const maxBytes = output.maxBytes;
+  const startQuality = output.quality;
+
+  if (!maxBytes) {
+    const blob = await encode(canvas, startQuality);
+    return result(blob, canvas, startQuality, true);
+  }
+
+  const minQuality = output.allowDownscale ? MIN_QUALITY_WITH_DOWNSCALE : MIN_QUALITY;
+  let current = canvas;
+
+  for (let attempt = 0; ; attempt++) {
+    const first = await encode(current, startQuality);
+    if (first.size <= maxBytes) {
+      return result(first, current, startQuality, true);
+    }
+    await checkpoint();
+
+    let smallest = first;
+    let smallestQuality = startQuality;
+
+    if (startQuality !== undefined && startQuality > minQuality) {
+      const floor = await encode(current, minQuality);
+      smallest = floor;
+      smallestQuality = minQuality;
+
+      if (floor.size <= maxBytes) {
+        // Binary search for the highest quality that still fits
+        let low = minQuality;
+        let high = startQuality;
+        let best = floor;
+        for (let step = 0; step < QUALITY_STEPS; step++) {
+          await checkpoint();
+          const mid = (low + high) / 2;
+          const blob = await encode(current, mid);
+          if (blob.size <= maxBytes) {
+            low = mid;
+            best = blob;
+          } else {
+            high = mid;
+          }
+        }
+        return result(best, current, low, true);
+      }
+    }
+
+    const canShrink = Math.min(current.width, current.height) > MIN_DIMENSION;
+    if (!output.allowDownscale || attempt >= MAX_DOWNSCALES || !canShrink) {
+      return result(smallest, current, smallestQuality, false);
+    }
+
+    // File size scales roughly with pixel count, so shrink each side by the square root
+    const factor = Math.min(0.95, Math.max(0.5, Math.sqrt(maxBytes / smallest.size) * 0.95));
+    current = resizeCanvas(current, factor);
+    await checkpoint();
+  }
+};
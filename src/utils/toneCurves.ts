@@ -0,0 +1,146 @@
+import { CurveChannel, CurvePoint, LevelsAdjustment, ToneCurves, defaultCurves, defaultLevels } from '../types';
+
+export const curveChannels: CurveChannel[] = ['master', 'red', 'green', 'blue'];
+
+export const MIN_GAMMA = 0.1;
+export const MAX_GAMMA = 9.99;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const isIdentityCurve = (points: CurvePoint[]): boolean =>
+  points.every(point => point.x === point.y) && points[0]?.x === 0 && points[points.length - 1]?.x === 255;
+
+export const isDefaultLevels = (levels: LevelsAdjustment): boolean =>
+  levels.black === defaultLevels.black && levels.white === defaultLevels.white && levels.gamma === defaultLevels.gamma;
+
+/**
+ * Sample a curve at every input level. Uses monotone cubic interpolation (Fritsch–Carlson)
+ * so the curve passes through every point without overshooting between them.
+ * Inputs outside the first and last points hold their output.
+ */
+export const sampleCurve = (points: CurvePoint[]): Uint8Array => {
+  const lut = new Uint8Array(256);
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  const n = sorted.length;
+  if (n === 0) {
+    lut.forEach((_, i) => { lut[i] = i; });
+    return lut;
+  }
+  if (n === 1) {
+    return lut.fill(clamp(Math.round(sorted[0].y), 0, 255));
+  }
+
+  // Secant slopes, then tangents that keep each segment monotone
+  const deltas: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    deltas.push((sorted[i + 1].y - sorted[i].y) / Math.max(1e-6, sorted[i + 1].x - sorted[i].x));
+  }
+  const tangents = sorted.map((_, i) => {
+    if (i === 0) return deltas[0];
+    if (i === n - 1) return deltas[n - 2];
+    return deltas[i - 1] * deltas[i] <= 0 ? 0 : (deltas[i - 1] + deltas[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (deltas[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / deltas[i];
+    const b = tangents[i + 1] / deltas[i];
+    const length = Math.hypot(a, b);
+    if (length > 3) {
+      tangents[i] = (3 / length) * a * deltas[i];
+      tangents[i + 1] = (3 / length) * b * deltas[i];
+    }
+  }
+
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    let y: number;
+    if (x <= sorted[0].x) {
+      y = sorted[0].y;
+    } else if (x >= sorted[n - 1].x) {
+      y = sorted[n - 1].y;
+    } else {
+      while (x > sorted[segment + 1].x) segment++;
+      const p0 = sorted[segment];
+      const p1 = sorted[segment + 1];
+      const h = p1.x - p0.x;
+      const t = (x - p0.x) / h;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      y = (2 * t3 - 3 * t2 + 1) * p0.y
+        + (t3 - 2 * t2 + t) * h * tangents[segment]
+        + (-2 * t3 + 3 * t2) * p1.y
+        + (t3 - t2) * h * tangents[segment + 1];
+    }
+    lut[x] = clamp(Math.round(y), 0, 255);
+  }
+  return lut;
+};
+
+// Input levels: stretch black..white to the full range, then bend the midtones by gamma
+export const sampleLevels = (levels: LevelsAdjustment): Uint8Array => {
+  const lut = new Uint8Array(256);
+  const range = Math.max(1, levels.white - levels.black);
+  const exponent = 1 / clamp(levels.gamma, MIN_GAMMA, MAX_GAMMA);
+  for (let x = 0; x < 256; x++) {
+    const normalized = clamp((x - levels.black) / range, 0, 1);
+    lut[x] = Math.round(Math.pow(normalized, exponent) * 255);
+  }
+  return lut;
+};
+
+/**
+ * One lookup table per RGB channel combining the master curve, then the channel's own curve.
+ * Null when they'd leave every value unchanged.
+ */
+export const createCurveLuts = (curves: ToneCurves): [Uint8Array, Uint8Array, Uint8Array] | null => {
+  const channels = [curves.red, curves.green, curves.blue];
+  if (isIdentityCurve(curves.master) && channels.every(isIdentityCurve)) {
+    return null;
+  }
+
+  const masterLut = sampleCurve(curves.master);
+  return channels.map((points) => {
+    const channelLut = sampleCurve(points);
+    const lut = new Uint8Array(256);
+    for (let x = 0; x < 256; x++) {
+      lut[x] = channelLut[masterLut[x]];
+    }
+    return lut;
+  }) as [Uint8Array, Uint8Array, Uint8Array];
+};
+
+// Rebuild curves and levels from untrusted JSON
+
+const toCurve = (value: unknown, fallback: CurvePoint[]): CurvePoint[] => {
+  if (!Array.isArray(value)) return fallback;
+  const points = value
+    .filter((point): point is CurvePoint =>
+      typeof point === 'object' && point !== null &&
+      Number.isFinite(point.x) && Number.isFinite(point.y))
+    .map(point => ({ x: clamp(Math.round(point.x), 0, 255), y: clamp(Math.round(point.y), 0, 255) }))
+    .sort((a, b) => a.x - b.x)
+    .filter((point, i, list) => i === 0 || point.x !== list[i - 1].x);
+  return points.length >= 2 ? points : fallback;
+};
+
+export const toToneCurves = (value: unknown): ToneCurves => {
+  const raw = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  return {
+    master: toCurve(raw.master, defaultCurves.master),
+    red: toCurve(raw.red, defaultCurves.red),
+    green: toCurve(raw.green, defaultCurves.green),
+    blue: toCurve(raw.blue, defaultCurves.blue),
+  };
+};
+
+export const toLevels = (value: unknown): LevelsAdjustment => {
+  const raw = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  const black = Number.isFinite(raw.black) ? clamp(Math.round(raw.black as number), 0, 254) : defaultLevels.black;
+  const white = Number.isFinite(raw.white) ? clamp(Math.round(raw.white as number), black + 1, 255) : defaultLevels.white;
+  const gamma = Number.isFinite(raw.gamma) ? clamp(raw.gamma as number, MIN_GAMMA, MAX_GAMMA) : defaultLevels.gamma;
+  return { black, white, gamma };
+};
@@ -0,0 +1,43 @@
+import { ColorLut, FormatOptions, ImageFilters, ImagePlacement, ImageTransform, PhotoRect } from '../types';
+
+// Everything needed to render one image, structured-cloneable so it can cross into a worker
+export interface RenderRequest {
+  sourceId: string; // identifies the decoded source so workers can reuse it
+  source: Blob; // a browser-decodable image (HEIC already converted)
+  orientation: number; // EXIF orientation to apply after decoding, 1 = upright
+  options: FormatOptions;
+  filters: ImageFilters;
+  luts: ColorLut[]; // imported LUTs the filters' layers use, looked up on the main thread
+  placement: ImagePlacement;
+  transform: ImageTransform;
+  output: {
+    type: string; // mime type for the encoded result
+    quality?: number; // 0-1 for lossy formats
+    background?: string; // flatten transparency onto this color before encoding
+    maxBytes?: number; // lower the quality (and maybe the size) until the file fits
+    allowDownscale?: boolean; // shrink the image when the lowest quality still doesn't fit
+  };
+  includeBitmap: boolean; // also return the pixels for on-screen use
+  maxDimension: number; // longest edge for previews, 0 renders at full resolution
+}
+
+export interface RenderResult {
+  blob: Blob;
+  bitmap?: ImageBitmap;
+  width: number; // of the encoded file, smaller than the render when downscaled to fit
+  height: number;
+  quality?: number; // 0-1 quality the file was encoded at, for lossy formats
+  withinLimit: boolean; // false when maxBytes couldn't be reached
+  photoRect: PhotoRect; // the photo inside the render (and bitmap), padding excluded
+  scale: number; // render pixels per full-resolution pixel, 1 unless maxDimension shrank it
+}
+
+export type RenderWorkerRequest =
+  | { type: 'render'; id: number; request: RenderRequest }
+  | { type: 'cancel'; id: number };
+
+export type RenderWorkerResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'done'; id: number; result: RenderResult }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
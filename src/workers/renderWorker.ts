@@ -0,0 +1,38 @@
+import { RenderWorkerRequest, RenderWorkerResponse } from './renderProtocol';
+import { renderImage, RenderCancelledError } from '../utils/renderJob';
+
+// Jobs still rendering, and whether each has been cancelled
+const running = new Map<number, boolean>();
+
+const post = (message: RenderWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.addEventListener('message', async (event: MessageEvent<RenderWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    // A cancel can cross paths with its job finishing, so only running jobs are marked
+    if (running.has(message.id)) running.set(message.id, true);
+    return;
+  }
+
+  const { id, request } = message;
+  running.set(id, false);
+  try {
+    const result = await renderImage(
+      request,
+      (progress) => post({ type: 'progress', id, progress }),
+      () => running.get(id) === true
+    );
+    post({ type: 'done', id, result }, result.bitmap ? [result.bitmap] : []);
+  } catch (error) {
+    if (error instanceof RenderCancelledError) {
+      post({ type: 'cancelled', id });
+    } else {
+      post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    running.delete(id);
+  }
+});